@@ -3,19 +3,24 @@ import commonjs from "@rollup/plugin-commonjs";
 import external from "rollup-plugin-peer-deps-external";
 import resolve from "@rollup/plugin-node-resolve";
 
-import pkg from "./package.json" with { type: "json" };
-
 export default {
-  input: "src/index.ts",
+  input: {
+    index: "src/index.ts",
+    epic: "src/epic.ts"
+  },
   output: [
     {
-      file: pkg.main,
+      dir: "build",
+      entryFileNames: "[name].js",
+      chunkFileNames: "[name]-[hash].js",
       format: "cjs",
       exports: "named",
       sourcemap: true
     },
     {
-      file: pkg.module,
+      dir: "build",
+      entryFileNames: "[name].es.js",
+      chunkFileNames: "[name]-[hash].es.js",
       format: "es",
       exports: "named",
       sourcemap: true
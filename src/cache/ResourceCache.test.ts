@@ -0,0 +1,225 @@
+import { ResourceCache } from "./ResourceCache";
+import { Data, Failure, Query, Resource } from "../unions/Resource";
+
+describe("ResourceCache", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  it("stores the fetched Data under a stable params key", async () => {
+    const fetcher = jest.fn(
+      async ({ id }: { id: number; q: string }) => id
+    );
+    const cache = new ResourceCache({ fetcher });
+
+    const result = await cache.fetch({ id: 1, q: "a" });
+
+    expect(result).toBeInstanceOf(Data);
+    expect(cache.get({ q: "a", id: 1 })).toBe(result);
+    expect(cache.get({ id: 2, q: "a" })).toBeUndefined();
+    expect(result.meta?.source).toBe("network");
+  });
+
+  it("deduplicates concurrent fetches for the same key", async () => {
+    const pending = deferred<string>();
+    const fetcher = jest.fn(() => pending.promise);
+    const cache = new ResourceCache<string, { id: number }>({
+      fetcher
+    });
+
+    const first = cache.fetch({ id: 1 });
+    const second = cache.fetch({ id: 1 });
+    expect(second).toBe(first);
+    expect(cache.get({ id: 1 })).toBeInstanceOf(Query);
+
+    pending.resolve("user");
+    expect((await first).getDataOr("")).toBe("user");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns fresh Data without fetching and refetches stale Data", async () => {
+    const fetcher = jest.fn(async () => "value");
+    const cache = new ResourceCache<string, number>({
+      fetcher,
+      ttlMs: 1000
+    });
+
+    await cache.fetch(1);
+    await cache.fetch(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await cache.fetch(1);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    await cache.fetch(1, { force: true });
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it("notifies subscribers of every transition, keeping stale Data", async () => {
+    const cache = new ResourceCache<string, number>({
+      fetcher: async (n) => `value ${n}`
+    });
+    const listener = jest.fn();
+    cache.subscribe(1, listener);
+
+    await cache.fetch(1);
+    await cache.fetch(1, { force: true });
+
+    const states = listener.mock.calls.map(([resource]) => resource);
+    expect(
+      states.map((r: Resource<string, number>) => r.type)
+    ).toEqual(["Query", "Data", "Query", "Data"]);
+    expect(Resource.isRefreshing(states[2])).toBe(true);
+    expect(states[2].getDataOr(null)).toBe("value 1");
+  });
+
+  it("stores a Failure when the fetcher rejects", async () => {
+    const cache = new ResourceCache<string, number>({
+      fetcher: async () => {
+        throw new Error("Not found");
+      }
+    });
+
+    const result = await cache.fetch(1);
+
+    expect(result).toBeInstanceOf(Failure);
+    expect((result as Failure<number>).messages).toEqual([
+      "Not found"
+    ]);
+    expect(cache.get(1)).toBe(result);
+  });
+
+  it("invalidates entries by params or predicate", async () => {
+    const cache = new ResourceCache<number, { id: number }>({
+      fetcher: async ({ id }) => id
+    });
+    await cache.fetch({ id: 1 });
+    await cache.fetch({ id: 2 });
+    await cache.fetch({ id: 3 });
+    const listener = jest.fn();
+    cache.subscribe({ id: 1 }, listener);
+
+    cache.invalidate({ id: 1 });
+    expect(Resource.isStale(cache.get({ id: 1 })!)).toBe(true);
+    expect(Resource.isStale(cache.get({ id: 2 })!)).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    cache.invalidate(({ id }) => id > 1);
+    expect(Resource.isStale(cache.get({ id: 2 })!)).toBe(true);
+    expect(Resource.isStale(cache.get({ id: 3 })!)).toBe(true);
+  });
+
+  it("garbage-collects entries without subscribers after gcTimeMs", async () => {
+    const cache = new ResourceCache<number, number>({
+      fetcher: async (n) => n,
+      gcTimeMs: 100
+    });
+    await cache.fetch(1);
+    await cache.fetch(2);
+    const unsubscribe = cache.subscribe(2, () => undefined);
+
+    jest.advanceTimersByTime(100);
+    expect(cache.get(1)).toBeUndefined();
+    expect(cache.get(2)).toBeInstanceOf(Data);
+
+    unsubscribe();
+    jest.advanceTimersByTime(99);
+    expect(cache.size).toBe(1);
+    jest.advanceTimersByTime(1);
+    expect(cache.size).toBe(0);
+  });
+
+  it("keeps entries whose GC timer fires while a request is in flight", async () => {
+    const pending = deferred<number>();
+    const fetcher = jest
+      .fn<Promise<number>, [number]>()
+      .mockResolvedValueOnce(1)
+      .mockReturnValue(pending.promise);
+    const cache = new ResourceCache<number, number>({
+      fetcher,
+      gcTimeMs: 50,
+      ttlMs: 10
+    });
+    await cache.fetch(1);
+
+    jest.advanceTimersByTime(30);
+    const request = cache.fetch(1);
+    jest.advanceTimersByTime(40);
+    expect(cache.size).toBe(1);
+    expect(cache.fetch(1)).toBe(request);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    pending.resolve(2);
+    expect((await request).getDataOr(0)).toBe(2);
+  });
+
+  it("keeps a newer entry when a removed one is unsubscribed", async () => {
+    const cache = new ResourceCache<number, { id: number }>({
+      fetcher: async ({ id }) => id,
+      gcTimeMs: 100
+    });
+    const unsubscribe = cache.subscribe({ id: 1 }, () => undefined);
+    cache.remove({ id: 1 });
+    const listener = jest.fn();
+    cache.subscribe({ id: 1 }, listener);
+
+    unsubscribe();
+    jest.advanceTimersByTime(100);
+    expect(cache.size).toBe(1);
+
+    const fetched = await cache.fetch({ id: 1 });
+    expect(listener).toHaveBeenLastCalledWith(fetched);
+    expect(fetched.getDataOr(0)).toBe(1);
+  });
+
+  it("aborts in-flight requests of removed entries", async () => {
+    const signals: AbortSignal[] = [];
+    const cache = new ResourceCache<number, number>({
+      fetcher: (_n, signal) => {
+        signals.push(signal);
+        return new Promise<number>(() => undefined);
+      }
+    });
+
+    const request = cache.fetch(1);
+    cache.fetch(2);
+    cache.remove(1);
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+    expect(await request).toBeInstanceOf(Failure);
+    expect(cache.get(1)).toBeUndefined();
+
+    cache.remove();
+    expect(signals[1].aborted).toBe(true);
+    expect(cache.size).toBe(0);
+  });
+
+  it("stores values set directly", () => {
+    const cache = new ResourceCache<number, number>({
+      fetcher: async (n) => n
+    });
+    const listener = jest.fn();
+    cache.subscribe(1, listener);
+
+    cache.set(1, Data.of(10, 1));
+
+    expect(cache.get(1)?.getDataOr(0)).toBe(10);
+    expect(listener).toHaveBeenCalledWith(cache.get(1));
+  });
+});
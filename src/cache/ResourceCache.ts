@@ -0,0 +1,279 @@
+import {
+  Resource,
+  Query,
+  RunOptions,
+  isStale,
+  paramsKey,
+  run
+} from "../unions/Resource";
+
+/**
+ * Receives the new Resource of a cache entry after every transition.
+ */
+export type ResourceCacheListener<T, Q, E = string> = (
+  resource: Resource<T, Q, E>
+) => void;
+
+/**
+ * Options for `ResourceCache`.
+ * @typeParam T - The type of the cached data.
+ * @typeParam Q - The type of the params the entries are keyed by.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export interface ResourceCacheOptions<T, Q, E = string> {
+  /** Fetches the data for some params; the signal aborts when the entry is removed. */
+  fetcher: (params: Q, signal: AbortSignal) => Promise<T>;
+  /** Builds the entry key from the params; defaults to `Resource.paramsKey`. */
+  getKey?: (params: Q) => string;
+  /** Lifetime of fetched `Data` in milliseconds, stored as `meta.expiresAt`; unlimited by default. */
+  ttlMs?: number;
+  /** Delay before an entry without subscribers is removed, in milliseconds; defaults to 5 minutes. */
+  gcTimeMs?: number;
+  /** Timeout, retry and error conversion options passed to `Resource.run`. */
+  runOptions?: Omit<RunOptions<E>, "signal">;
+}
+
+/**
+ * Options for `ResourceCache.fetch`.
+ */
+export interface ResourceCacheFetchOptions {
+  /** Fetches even if the cached `Data` is not stale. */
+  force?: boolean;
+}
+
+interface CacheEntry<T, Q, E> {
+  params: Q;
+  resource?: Resource<T, Q, E>;
+  listeners: Set<ResourceCacheListener<T, Q, E>>;
+  request?: Promise<Resource<T, Q, E>>;
+  controller?: AbortController;
+  gcTimer?: ReturnType<typeof setTimeout>;
+  /** Set by `remove`, so later unsubscribes leave the cache alone. */
+  removed?: boolean;
+}
+
+/**
+ * A framework-agnostic cache of Resources keyed by a stable hash of their params.
+ * Concurrent fetches for the same params share one request, loaded `Data` is kept as
+ * stale while revalidating, entries can be invalidated by params or predicate, and
+ * entries nobody subscribes to are garbage-collected after `gcTimeMs`.
+ * @typeParam T - The type of the cached data.
+ * @typeParam Q - The type of the params the entries are keyed by.
+ * @typeParam E - The type of the errors in `Failure` state.
+ *
+ * @example
+ * const users = new ResourceCache<User, { id: string }>({
+ *   fetcher: ({ id }, signal) => fetch(`/users/${id}`, { signal }).then(r => r.json()),
+ *   ttlMs: 60_000
+ * });
+ * const unsubscribe = users.subscribe({ id: '123' }, resource => render(resource));
+ * users.fetch({ id: '123' }); // Query, then Data
+ * users.fetch({ id: '123' }); // shares the in-flight request
+ * users.invalidate(params => params.id === '123'); // marks the entry stale
+ */
+export class ResourceCache<T, Q, E = string> {
+  private readonly entries = new Map<string, CacheEntry<T, Q, E>>();
+  private readonly getKey: (params: Q) => string;
+  private readonly gcTimeMs: number;
+
+  constructor(
+    private readonly options: ResourceCacheOptions<T, Q, E>
+  ) {
+    this.getKey = options.getKey ?? paramsKey;
+    this.gcTimeMs = options.gcTimeMs ?? 5 * 60 * 1000;
+  }
+
+  /**
+   * Returns the cached Resource for some params, if any.
+   * @param params - The params of the entry.
+   */
+  public get(params: Q): Resource<T, Q, E> | undefined {
+    return this.entries.get(this.getKey(params))?.resource;
+  }
+
+  /**
+   * Stores a Resource for some params, notifying subscribers.
+   * @param params - The params of the entry.
+   * @param resource - The Resource to store.
+   */
+  public set(params: Q, resource: Resource<T, Q, E>): void {
+    const entry = this.entry(params);
+    this.transition(entry, resource);
+    this.scheduleGc(entry);
+  }
+
+  /**
+   * Fetches the Resource for some params, or returns the cached one while it is `Data`
+   * and not stale. Concurrent calls for the same params share a single request.
+   * While fetching, the entry is a `Query` keeping any previous `Data` as stale.
+   * @param params - The params to fetch.
+   * @param options - Use `force` to fetch even when the cached `Data` is fresh.
+   * @returns A Promise of the resulting `Data` or `Failure`; it never rejects.
+   */
+  public fetch(
+    params: Q,
+    options: ResourceCacheFetchOptions = {}
+  ): Promise<Resource<T, Q, E>> {
+    const entry = this.entry(params);
+    if (entry.request) {
+      return entry.request;
+    }
+    const { resource } = entry;
+    if (
+      !options.force &&
+      resource?.type === "Data" &&
+      !isStale(resource)
+    ) {
+      return Promise.resolve(resource);
+    }
+    const controller = new AbortController();
+    const { ttlMs, runOptions } = this.options;
+    this.transition(
+      entry,
+      resource?.refresh(params) ?? Query.of(params)
+    );
+    const request = run(this.options.fetcher, params, {
+      ...runOptions,
+      signal: controller.signal
+    }).then((result) => {
+      const fetchedAt = Date.now();
+      const settled = result.withMeta({
+        fetchedAt,
+        expiresAt:
+          ttlMs === undefined ? undefined : fetchedAt + ttlMs,
+        source: "network"
+      });
+      // A removed or replaced request no longer owns the entry
+      if (entry.request === request) {
+        entry.request = undefined;
+        entry.controller = undefined;
+        this.transition(entry, settled);
+        this.scheduleGc(entry);
+      }
+      return settled;
+    });
+    entry.request = request;
+    entry.controller = controller;
+    clearTimeout(entry.gcTimer);
+    return request;
+  }
+
+  /**
+   * Subscribes to the transitions of the entry for some params.
+   * A subscribed entry is never garbage-collected.
+   * @param params - The params of the entry.
+   * @param listener - Called with the new Resource after every transition.
+   * @returns A function that removes the subscription.
+   */
+  public subscribe(
+    params: Q,
+    listener: ResourceCacheListener<T, Q, E>
+  ): () => void {
+    const entry = this.entry(params);
+    entry.listeners.add(listener);
+    clearTimeout(entry.gcTimer);
+    return () => {
+      entry.listeners.delete(listener);
+      this.scheduleGc(entry);
+    };
+  }
+
+  /**
+   * Marks entries as stale (see `Resource.expire`) so the next `fetch` requests them again.
+   * @param target - The params of one entry, or a predicate over the params and Resource of each entry.
+   */
+  public invalidate(
+    target: Q | ((params: Q, resource?: Resource<T, Q, E>) => boolean)
+  ): void {
+    this.select(target).forEach((entry) => {
+      if (entry.resource) {
+        this.transition(entry, Resource.expire(entry.resource));
+      }
+    });
+  }
+
+  /**
+   * Removes entries, aborting their in-flight requests. Subscribers are not notified.
+   * @param target - The params of one entry, or a predicate; removes every entry when omitted.
+   */
+  public remove(
+    target?:
+      | Q
+      | ((params: Q, resource?: Resource<T, Q, E>) => boolean)
+  ): void {
+    const entries =
+      target === undefined
+        ? [...this.entries.values()]
+        : this.select(target);
+    entries.forEach((entry) => {
+      clearTimeout(entry.gcTimer);
+      entry.controller?.abort();
+      entry.request = undefined;
+      entry.listeners.clear();
+      entry.removed = true;
+      this.entries.delete(this.getKey(entry.params));
+    });
+  }
+
+  /**
+   * Returns the number of entries in the cache.
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  private entry(params: Q): CacheEntry<T, Q, E> {
+    const key = this.getKey(params);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { params, listeners: new Set() };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private select(
+    target: Q | ((params: Q, resource?: Resource<T, Q, E>) => boolean)
+  ): CacheEntry<T, Q, E>[] {
+    if (typeof target === "function") {
+      const predicate = target as (
+        params: Q,
+        resource?: Resource<T, Q, E>
+      ) => boolean;
+      return [...this.entries.values()].filter((entry) =>
+        predicate(entry.params, entry.resource)
+      );
+    }
+    const entry = this.entries.get(this.getKey(target));
+    return entry ? [entry] : [];
+  }
+
+  private transition(
+    entry: CacheEntry<T, Q, E>,
+    resource: Resource<T, Q, E>
+  ): void {
+    entry.resource = resource;
+    entry.listeners.forEach((listener) => listener(resource));
+  }
+
+  // Entries without subscribers or requests are removed after gcTimeMs
+  private scheduleGc(entry: CacheEntry<T, Q, E>): void {
+    clearTimeout(entry.gcTimer);
+    if (entry.removed || entry.listeners.size > 0 || entry.request) {
+      return;
+    }
+    entry.gcTimer = setTimeout(() => {
+      const key = this.getKey(entry.params);
+      // The key may hold a newer entry since this one was removed
+      if (
+        this.entries.get(key) === entry &&
+        entry.listeners.size === 0 &&
+        !entry.request
+      ) {
+        this.entries.delete(key);
+      }
+    }, this.gcTimeMs);
+  }
+}
+
+export default ResourceCache;
@@ -0,0 +1,158 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, render } from "@testing-library/react";
+import {
+  ResourceBoundary,
+  ResourceReadError,
+  readResource,
+  suspendOn
+} from "./ResourceBoundary";
+import { useResource } from "../hooks/useResource";
+import {
+  Resource,
+  Query,
+  Data,
+  Empty,
+  Failure
+} from "../unions/Resource";
+
+type User = Resource<string, { id: number }>;
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const Name = ({ resource }: { resource: User }) => (
+  <p>{readResource(resource)}</p>
+);
+
+const view = (resource: User, resetKey?: unknown) => (
+  <ResourceBoundary<string, { id: number }>
+    fallback={<p>Loading</p>}
+    Failure={({ messages }) => <p>Failure: {messages.join()}</p>}
+    Empty={({ params }) => <p>Empty {params?.id}</p>}
+    resetKey={resetKey}
+  >
+    <Name resource={resource} />
+  </ResourceBoundary>
+);
+
+describe("readResource", () => {
+  it("returns the value of a Data", () => {
+    expect(readResource(Data.of("Jane", { id: 1 }))).toBe("Jane");
+  });
+
+  it("throws a ResourceReadError for Empty and Failure", () => {
+    const failure = Failure.of(["Not found"], { id: 1 });
+    expect(() => readResource(failure)).toThrow(ResourceReadError);
+    expect(() => readResource(Empty.of({ id: 1 }))).toThrow(
+      "Resource is Empty"
+    );
+  });
+
+  it("throws a TypeError for a Query without a request", () => {
+    expect(() => readResource(Query.of({ id: 1 }))).toThrow(
+      TypeError
+    );
+  });
+});
+
+describe("ResourceBoundary", () => {
+  // React logs the errors caught by error boundaries
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("shows the fallback until the request of suspendOn settles", async () => {
+    const request = deferred<User>();
+    const query = suspendOn(
+      Query.of<{ id: number }, string>({ id: 1 }),
+      request.promise
+    );
+    const { container } = await act(async () => render(view(query)));
+    expect(container.textContent).toBe("Loading");
+
+    await act(async () =>
+      request.resolve(Data.of("Jane", { id: 1 }))
+    );
+    expect(container.textContent).toBe("Jane");
+  });
+
+  it("suspends on the given promise of a Query", async () => {
+    const request = Promise.resolve<User>(Data.of("Jane", { id: 1 }));
+    const Reader = () => (
+      <p>{readResource(Query.of({ id: 1 }), request)}</p>
+    );
+    const { container } = await act(async () =>
+      render(
+        <ResourceBoundary fallback="Loading" Failure={() => null}>
+          <Reader />
+        </ResourceBoundary>
+      )
+    );
+    expect(container.textContent).toBe("Jane");
+  });
+
+  it("renders the Failure and Empty components", async () => {
+    const failure = await act(async () =>
+      render(view(Failure.of(["Not found"], { id: 1 })))
+    );
+    expect(failure.container.textContent).toBe("Failure: Not found");
+
+    const empty = await act(async () =>
+      render(view(Empty.of({ id: 2 })))
+    );
+    expect(empty.container.textContent).toBe("Empty 2");
+  });
+
+  it("renders nothing for Empty without an Empty component", async () => {
+    const { container } = await act(async () =>
+      render(
+        <ResourceBoundary Failure={() => null}>
+          <Name resource={Empty.of({ id: 1 })} />
+        </ResourceBoundary>
+      )
+    );
+    expect(container.textContent).toBe("");
+  });
+
+  it("renders the children again when resetKey changes", async () => {
+    const failure = Failure.of<{ id: number }>(["Not found"], {
+      id: 1
+    });
+    const { container, rerender } = await act(async () =>
+      render(view(failure, failure))
+    );
+    expect(container.textContent).toBe("Failure: Not found");
+
+    const data = Data.of("Jane", { id: 1 });
+    await act(async () => rerender(view(data, failure)));
+    expect(container.textContent).toBe("Failure: Not found");
+    await act(async () => rerender(view(data, data)));
+    expect(container.textContent).toBe("Jane");
+  });
+
+  it("suspends on the requests of useResource", async () => {
+    const request = deferred<string>();
+    const fetcher = jest.fn(() => request.promise);
+    const Page = () => {
+      const { resource } = useResource(fetcher, { id: 1 });
+      return view(resource);
+    };
+    const { container } = await act(async () => render(<Page />));
+    expect(container.textContent).toBe("Loading");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await act(async () => request.resolve("Jane"));
+    expect(container.textContent).toBe("Jane");
+  });
+});
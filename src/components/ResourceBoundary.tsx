@@ -0,0 +1,182 @@
+import React, { Suspense, use } from "react";
+import {
+  Resource,
+  Empty,
+  Failure,
+  ResourceTypes
+} from "../unions/Resource";
+import {
+  ResourceEmptyProps,
+  ResourceFailureProps
+} from "./ResourceRender";
+import { pendingRequest } from "../unions/suspense";
+
+export { suspendOn } from "../unions/suspense";
+
+/**
+ * Error thrown by `readResource` for an `Empty` or `Failure` Resource, caught by the
+ * nearest `ResourceBoundary`. Other boundaries can tell it apart with `instanceof`.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export class ResourceReadError<
+  Q = unknown,
+  E = string
+> extends Error {
+  constructor(readonly resource: Empty<Q> | Failure<Q, E>) {
+    super(
+      resource.type === ResourceTypes.Empty
+        ? "Resource is Empty"
+        : "Resource is a Failure"
+    );
+    this.name = "ResourceReadError";
+  }
+}
+
+/**
+ * Reads the value of a Resource during render, for use inside a `ResourceBoundary`.
+ * `Data` returns its value, a `Query` suspends on its request (registered with `suspendOn`,
+ * or the given `promise`), and `Empty` or `Failure` throw a `ResourceReadError`.
+ * Like React's `use`, it may only be called while rendering a component.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @param resource - The Resource to read.
+ * @param promise - The request of a `Query` without a registered one; it must be the same
+ * promise on every render, such as the one shared by `ResourceCache.fetch`.
+ * @returns The value of the `Data` the Resource is or settles to.
+ * @throws TypeError when a `Query` has no request to suspend on.
+ *
+ * @example
+ * const User: React.FC<{ resource: Resource<User, { id: string }> }> = ({ resource }) => {
+ *   const user = readResource(resource);
+ *   return <p>{user.name}</p>;
+ * };
+ *
+ * @example
+ * const user = readResource(users.get(params) ?? Resource.Query(params), users.fetch(params));
+ */
+export const readResource = <T, Q, E = string>(
+  resource: Resource<T, Q, E>,
+  promise?: Promise<Resource<T, Q, E>>
+): T => {
+  switch (resource.type) {
+    case ResourceTypes.Data:
+      return resource.value;
+    case ResourceTypes.Query: {
+      const request = pendingRequest<T, Q, E>(resource) ?? promise;
+      if (!request) {
+        throw new TypeError(
+          "Cannot suspend on a Query without a request; register one with suspendOn"
+        );
+      }
+      return readResource(use(request));
+    }
+    case ResourceTypes.Empty:
+    case ResourceTypes.Failure:
+      throw new ResourceReadError<Q, E>(resource);
+  }
+};
+
+/**
+ * Props for the ResourceBoundary component.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export interface ResourceBoundaryProps<T, Q, E = string> {
+  /** Components reading Resources with `readResource`. */
+  children?: React.ReactNode;
+  /** Rendered while a read `Query` is suspended. */
+  fallback?: React.ReactNode;
+  /** Component to render when a read Resource is a `Failure`. */
+  Failure: React.FC<ResourceFailureProps<T, Q, E>>;
+  /** Component to render when a read Resource is `Empty`; renders nothing by default. */
+  Empty?: React.FC<ResourceEmptyProps<T, Q, E>>;
+  /** Renders the children again, instead of the Failure or Empty, when it changes. */
+  resetKey?: unknown;
+}
+
+interface ErrorBoundaryState<Q, E> {
+  resource?: Empty<Q> | Failure<Q, E>;
+}
+
+/**
+ * Catches the `ResourceReadError`s thrown by its children, letting other errors through.
+ */
+class ResourceErrorBoundary<T, Q, E = string> extends React.Component<
+  ResourceBoundaryProps<T, Q, E>,
+  ErrorBoundaryState<Q, E>
+> {
+  state: ErrorBoundaryState<Q, E> = {};
+
+  static getDerivedStateFromError(error: unknown) {
+    if (error instanceof ResourceReadError) {
+      return { resource: error.resource };
+    }
+    throw error;
+  }
+
+  componentDidUpdate(previous: ResourceBoundaryProps<T, Q, E>) {
+    if (
+      this.state.resource &&
+      !Object.is(previous.resetKey, this.props.resetKey)
+    ) {
+      this.setState({ resource: undefined });
+    }
+  }
+
+  render() {
+    const { resource } = this.state;
+    const { Failure, Empty, children } = this.props;
+    if (!resource) {
+      return children;
+    }
+    if (resource.type === ResourceTypes.Failure) {
+      return (
+        <Failure
+          resource={resource}
+          messages={resource.messages}
+          params={resource.params}
+        />
+      );
+    }
+    return Empty ? (
+      <Empty resource={resource} params={resource.params} />
+    ) : null;
+  }
+}
+
+/**
+ * Pairs Suspense with an error boundary for components reading Resources with `readResource`:
+ * a `Query` shows the `fallback`, a `Failure` renders the `Failure` component and an `Empty`
+ * renders the optional `Empty` component. Errors other than a `ResourceReadError` reach
+ * the next error boundary up.
+ * Keep the Resource state above the boundary (e.g. `useResource` in a parent), since
+ * suspended children lose their own state.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @param props - The children, the Suspense fallback and the Failure and Empty components.
+ * @returns A React node rendering the children, the fallback, or the Failure or Empty.
+ *
+ * @example
+ * const { resource, refetch } = useResource(fetchUser, { id });
+ * <ResourceBoundary
+ *   fallback={<Spinner />}
+ *   Failure={({ messages }) => <Retry messages={messages} onRetry={refetch} />}
+ *   resetKey={resource}
+ * >
+ *   <UserCard resource={resource} />
+ * </ResourceBoundary>
+ */
+export const ResourceBoundary = <T, Q, E = string>(
+  props: ResourceBoundaryProps<T, Q, E>
+): React.ReactNode => {
+  const { children, fallback, ...boundary } = props;
+  return (
+    <ResourceErrorBoundary {...boundary}>
+      <Suspense fallback={fallback}>{children}</Suspense>
+    </ResourceErrorBoundary>
+  );
+};
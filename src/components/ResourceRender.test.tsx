@@ -0,0 +1,171 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, render } from "@testing-library/react";
+import { ResourceRender } from "./ResourceRender";
+import { Resource, Query, Data } from "../unions/Resource";
+
+type User = Resource<string, undefined>;
+
+const renderUser = (
+  resource: User,
+  options: { queryDelayMs?: number; minQueryDurationMs?: number } = {}
+) => {
+  const view = (next: User) => (
+    <ResourceRender
+      resource={next}
+      {...options}
+      Data={({ value }) => <p>Data: {value}</p>}
+      Query={({ progress }) => (
+        <p>Loading{progress ? ` ${progress.loaded}` : ""}</p>
+      )}
+      Empty={() => <p>Empty</p>}
+      Failure={({ messages }) => <p>Failure: {messages.join()}</p>}
+    />
+  );
+  const { container, rerender } = render(view(resource));
+  return {
+    text: () => container.textContent,
+    update: (next: User) => rerender(view(next))
+  };
+};
+
+const advance = (ms: number) =>
+  act(() => {
+    jest.advanceTimersByTime(ms);
+  });
+
+describe("ResourceRender", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("renders a Query right away without delays", () => {
+    const user = renderUser(Data.of("Jane"));
+    user.update(Query.of());
+    expect(user.text()).toBe("Loading");
+  });
+
+  it("keeps the previous state until queryDelayMs passes", () => {
+    const user = renderUser(Data.of("Jane"), { queryDelayMs: 200 });
+    user.update(Query.of());
+    expect(user.text()).toBe("Data: Jane");
+    advance(199);
+    expect(user.text()).toBe("Data: Jane");
+    advance(1);
+    expect(user.text()).toBe("Loading");
+  });
+
+  it("never shows a Query settling before queryDelayMs", () => {
+    const user = renderUser(Data.of("Jane"), { queryDelayMs: 200 });
+    user.update(Query.of());
+    advance(100);
+    user.update(Data.of("John"));
+    expect(user.text()).toBe("Data: John");
+    advance(200);
+    expect(user.text()).toBe("Data: John");
+  });
+
+  it("renders nothing for a delayed Query on mount", () => {
+    const user = renderUser(Query.of(), { queryDelayMs: 200 });
+    expect(user.text()).toBe("");
+    advance(200);
+    expect(user.text()).toBe("Loading");
+  });
+
+  it("does not restart the delay when the Query updates", () => {
+    const query = Query.of<undefined, string>();
+    const user = renderUser(Data.of("Jane"), { queryDelayMs: 200 });
+    user.update(query);
+    advance(150);
+    user.update(query.withProgress({ loaded: 10, total: 20 }));
+    advance(50);
+    expect(user.text()).toBe("Loading 10");
+  });
+
+  it("keeps a shown Query for minQueryDurationMs", () => {
+    const user = renderUser(Query.of(), { minQueryDurationMs: 500 });
+    advance(100);
+    user.update(Data.of("Jane"));
+    expect(user.text()).toBe("Loading");
+    advance(399);
+    expect(user.text()).toBe("Loading");
+    advance(1);
+    expect(user.text()).toBe("Data: Jane");
+  });
+
+  it("renders a state right away once minQueryDurationMs has passed", () => {
+    const user = renderUser(Query.of(), { minQueryDurationMs: 500 });
+    advance(600);
+    user.update(Data.of("Jane"));
+    expect(user.text()).toBe("Data: Jane");
+  });
+
+  it("combines queryDelayMs and minQueryDurationMs", () => {
+    const user = renderUser(Data.of("Jane"), {
+      queryDelayMs: 200,
+      minQueryDurationMs: 500
+    });
+    user.update(Query.of());
+    advance(300);
+    expect(user.text()).toBe("Loading");
+    user.update(Data.of("John"));
+    advance(399);
+    expect(user.text()).toBe("Loading");
+    advance(1);
+    expect(user.text()).toBe("Data: John");
+  });
+
+  describe("staleWhileRevalidate", () => {
+    const refreshing = Data.of<string, undefined>("Jane")
+      .refresh()
+      .withProgress({ loaded: 1, total: 4 });
+
+    const view = (staleWhileRevalidate: boolean) => (
+      <ResourceRender
+        resource={refreshing}
+        staleWhileRevalidate={staleWhileRevalidate}
+        Data={({ value, isRefreshing }) => (
+          <p>
+            Data: {value}
+            {isRefreshing ? " (refreshing)" : ""}
+          </p>
+        )}
+        Query={({ stale, isRefreshing, progress }) => (
+          <p>
+            Loading {stale?.value} {String(isRefreshing)}{" "}
+            {progress?.percentage}%
+          </p>
+        )}
+      />
+    );
+
+    it("renders the stale Data of a refreshing Query", () => {
+      const { container } = render(view(true));
+      expect(container.textContent).toBe("Data: Jane (refreshing)");
+    });
+
+    it("passes the stale Data and progress to Query otherwise", () => {
+      const { container } = render(view(false));
+      expect(container.textContent).toBe("Loading Jane true 25%");
+    });
+
+    it("renders Query without stale Data", () => {
+      const { container } = render(
+        <ResourceRender
+          resource={Query.of<undefined, string>()}
+          staleWhileRevalidate
+          Data={({ value }) => <p>Data: {value}</p>}
+          Query={({ isRefreshing }) => (
+            <p>Loading {String(isRefreshing)}</p>
+          )}
+        />
+      );
+      expect(container.textContent).toBe("Loading false");
+    });
+  });
+});
@@ -1,54 +1,69 @@
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { mergeDeepRight } from "ramda";
 import {
   Resource,
   Query,
   Empty,
   Data,
-  Failure
+  Failure,
+  ResourceProgress,
+  ResourceTypes
 } from "../unions/Resource";
+import { useResourceRenderDefaults } from "./ResourceRenderProvider";
 
 /**
  * Base props for rendering a Resource ADT state.
  * @typeParam T - The type of the data in `Data` state.
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
  */
-export interface ResourceRendererProps<T, Q> {
+export interface ResourceRendererProps<T, Q, E = string> {
   /** The Resource instance to render. */
-  resource: Resource<T, Q>;
+  resource: Resource<T, Q, E>;
 }
 
 /**
  * Props for the Data component, used when the Resource is in a Data state.
  * @typeParam T - The type of the data in `Data` state.
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state (unused in Data).
  */
-export interface ResourceDataProps<T, Q>
-  extends ResourceRendererProps<T, Q> {
+export interface ResourceDataProps<T, Q, E = string>
+  extends ResourceRendererProps<T, Q, E> {
   /** The data value from the Data state. */
   value: T;
   /** Optional parameters associated with the Data state. */
   params?: Q;
+  /** True when `value` is stale data shown while a refreshing Query is in flight. */
+  isRefreshing?: boolean;
 }
 
 /**
  * Props for the Query component, used when the Resource is in a Query state.
- * @typeParam T - The type of the data in `Data` state (unused in Query).
+ * @typeParam T - The type of the data in `Data` state (the stale value, if any).
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state (unused in Query).
  */
-export interface ResourceQueryProps<T, Q>
-  extends ResourceRendererProps<T, Q> {
+export interface ResourceQueryProps<T, Q, E = string>
+  extends ResourceRendererProps<T, Q, E> {
   /** Optional parameters associated with the Query state. */
   params?: Q;
+  /** The last successful Data kept by a refreshing Query. */
+  stale?: Data<T, Q>;
+  /** True when the Query holds a stale Data (see `Resource.refresh`). */
+  isRefreshing?: boolean;
+  /** Progress of the request, when reported (see `Query.withProgress`). */
+  progress?: ResourceProgress;
 }
 
 /**
  * Props for the Empty component, used when the Resource is in an Empty state.
  * @typeParam T - The type of the data in `Data` state (unused in Empty).
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state (unused in Empty).
  */
-export interface ResourceEmptyProps<T, Q>
-  extends ResourceRendererProps<T, Q> {
+export interface ResourceEmptyProps<T, Q, E = string>
+  extends ResourceRendererProps<T, Q, E> {
   /** Optional parameters associated with the Empty state. */
   params?: Q;
 }
@@ -57,32 +72,49 @@ export interface ResourceEmptyProps<T, Q>
  * Props for the Failure component, used when the Resource is in a Failure state.
  * @typeParam T - The type of the data in `Data` state (unused in Failure).
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
  */
-export interface ResourceFailureProps<T, Q>
-  extends ResourceRendererProps<T, Q> {
+export interface ResourceFailureProps<T, Q, E = string>
+  extends ResourceRendererProps<T, Q, E> {
   /** Optional parameters associated with the Failure state. */
   params?: Q;
-  /** Array of error messages from the Failure state. */
-  messages: string[];
+  /** Array of errors from the Failure state (plain messages by default). */
+  messages: E[];
 }
 
 /**
  * Props for the ResourceRender component, which renders a Resource ADT using provided state components.
  * @typeParam T - The type of the data in `Data` state.
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
  */
-interface Props<T, Q> {
+interface Props<T, Q, E = string> {
   /** The Resource instance to render. */
-  resource: Resource<T, Q>;
+  resource: Resource<T, Q, E>;
   /** Component to render for the Data state. */
-  Data: React.FC<ResourceDataProps<T, Q>>;
-  /** Component to render for the Query state. */
-  Query: React.FC<ResourceQueryProps<T, Q>>;
-  /** Component to render for the Empty state. */
-  Empty: React.FC<ResourceEmptyProps<T, Q>>;
-  /** Component to render for the Failure state. */
-  Failure: React.FC<ResourceFailureProps<T, Q>>;
-  /** Common props to pass to all state components. */
+  Data: React.FC<ResourceDataProps<T, Q, E>>;
+  /** Component to render for the Query state; defaults to the one of `ResourceRenderProvider`. */
+  Query?: React.FC<ResourceQueryProps<T, Q, E>>;
+  /** Component to render for the Empty state; defaults to the one of `ResourceRenderProvider`. */
+  Empty?: React.FC<ResourceEmptyProps<T, Q, E>>;
+  /** Component to render for the Failure state; defaults to the one of `ResourceRenderProvider`. */
+  Failure?: React.FC<ResourceFailureProps<T, Q, E>>;
+  /**
+   * When true, a refreshing Query renders the Data component with its stale value
+   * and `isRefreshing` set, instead of the Query component.
+   */
+  staleWhileRevalidate?: boolean;
+  /**
+   * Delay before the Query component is shown, in milliseconds. Until then the previous
+   * state stays rendered (or nothing, on mount), so fast responses never show it.
+   */
+  queryDelayMs?: number;
+  /**
+   * Minimum time the Query component stays shown once it is, in milliseconds,
+   * so slow responses do not replace it right after it appears.
+   */
+  minQueryDurationMs?: number;
+  /** Common props to pass to all state components, merged over those of `ResourceRenderProvider`. */
   commonProps?: any;
   /** State-specific props to merge with commonProps for each state. */
   matchingProps?: {
@@ -93,11 +125,78 @@ interface Props<T, Q> {
   };
 }
 
+/**
+ * Returns the Resource to render: the given one, or the previously rendered one
+ * (`undefined` before the first) while `queryDelayMs` or `minQueryDurationMs` holds it.
+ * Timers are only started while a Resource is held.
+ */
+const useDisplayedResource = <T, Q, E>(
+  resource: Resource<T, Q, E>,
+  showsQuery: (resource?: Resource<T, Q, E>) => boolean,
+  queryDelayMs = 0,
+  minQueryDurationMs = 0
+): Resource<T, Q, E> | undefined => {
+  // The Resource rendered last, and since when it shows the Query component
+  const shown = useRef<{
+    resource?: Resource<T, Q, E>;
+    since: number;
+  }>({ since: 0 });
+  const deadline = useRef<number | undefined>(undefined);
+  const [released, setReleased] = useState<Resource<T, Q, E>>();
+  const entering = showsQuery(resource);
+  const held =
+    released !== resource &&
+    entering !== showsQuery(shown.current.resource) &&
+    (entering
+      ? queryDelayMs > 0
+      : Date.now() < shown.current.since + minQueryDurationMs);
+  const displayed = held ? shown.current.resource : resource;
+
+  useEffect(() => {
+    if (
+      showsQuery(displayed) &&
+      !showsQuery(shown.current.resource)
+    ) {
+      // A Query released by queryDelayMs is shown from the end of the delay
+      shown.current.since = deadline.current ?? Date.now();
+    }
+    shown.current.resource = displayed;
+  });
+
+  useEffect(() => {
+    if (!held) {
+      deadline.current = undefined;
+      return;
+    }
+    const now = Date.now();
+    // Kept while held, so updates of the held Resource do not restart the wait
+    deadline.current ??= entering
+      ? now + queryDelayMs
+      : shown.current.since + minQueryDurationMs;
+    const timer = setTimeout(
+      () => setReleased(resource),
+      Math.max(deadline.current - now, 0)
+    );
+    return () => clearTimeout(timer);
+  }, [held, resource, entering, queryDelayMs, minQueryDurationMs]);
+
+  return displayed;
+};
+
+const missingComponent = (state: string) =>
+  new Error(
+    `ResourceRender has no ${state} component; pass one or wrap it in a ResourceRenderProvider`
+  );
+
 /**
  * A component that renders a Resource ADT by matching its state to provided Data, Query, Empty, or Failure components.
  * Supports merging common and state-specific props for flexible rendering.
+ * The Query, Empty and Failure components and common props default to those of the nearest
+ * `ResourceRenderProvider`; rendering a state without a component throws an Error.
+ * `queryDelayMs` and `minQueryDurationMs` avoid flashing the Query component on fast or slow responses.
  * @typeParam T - The type of the data in `Data` state.
  * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
  * @param props - The component props, including the Resource instance, rendering components, and optional props.
  * @returns A React node representing the rendered Resource state.
  *
@@ -116,19 +215,64 @@ interface Props<T, Q> {
  *   commonProps={{ className: 'resource' }}
  *   matchingProps={{ Data: { style: { color: 'blue' } } }}
  * />
+ *
+ * @example
+ * // Keep showing the previous list while the next page loads
+ * <ResourceRender
+ *   resource={listResource.refresh({ page: 2 })}
+ *   staleWhileRevalidate
+ *   Data={({ value, isRefreshing }) => <List items={value} dimmed={isRefreshing} />}
+ *   Query={MyQuery}
+ *   Empty={MyEmpty}
+ *   Failure={MyFailure}
+ * />
+ *
+ * @example
+ * // No spinner for responses under 200ms, and at least 500ms of spinner otherwise
+ * <ResourceRender
+ *   resource={resource}
+ *   queryDelayMs={200}
+ *   minQueryDurationMs={500}
+ *   Data={MyData}
+ *   Query={MyQuery}
+ *   Empty={MyEmpty}
+ *   Failure={MyFailure}
+ * />
+ *
+ * @example
+ * // Query, Empty and Failure come from a ResourceRenderProvider
+ * <ResourceRender resource={resource} Data={MyData} />
  */
-export const ResourceRender = <T, Q>(
-  props: Props<T, Q>
+export const ResourceRender = <T, Q, E = string>(
+  props: Props<T, Q, E>
 ): React.ReactNode => {
   const {
-    resource,
     Data,
-    Query,
-    Empty,
-    Failure,
-    commonProps,
+    staleWhileRevalidate,
+    queryDelayMs,
+    minQueryDurationMs,
     matchingProps
   } = props;
+  const defaults = useResourceRenderDefaults();
+  const Query = props.Query ?? defaults.Query;
+  const Empty = props.Empty ?? defaults.Empty;
+  const Failure = props.Failure ?? defaults.Failure;
+  const commonProps = mergeDeepRight(
+    defaults.commonProps || {},
+    props.commonProps || {}
+  );
+  // A refreshing Query rendered as stale Data does not show the Query component
+  const resource = useDisplayedResource(
+    props.resource,
+    (resource) =>
+      resource?.type === ResourceTypes.Query &&
+      !(staleWhileRevalidate && resource.stale),
+    queryDelayMs,
+    minQueryDurationMs
+  );
+  if (!resource) {
+    return null;
+  }
 
   const specific = mergeDeepRight(
     {
@@ -141,21 +285,41 @@ export const ResourceRender = <T, Q>(
   );
 
   return resource.matchWith({
-    Query({ params }: Query<Q>) {
+    Query({ params, stale, progress }: Query<Q, T>) {
+      if (staleWhileRevalidate && stale) {
+        return (
+          <Data
+            resource={resource}
+            value={stale.value}
+            params={stale.params}
+            isRefreshing={true}
+            {...mergeDeepRight(commonProps, specific.Data)}
+          />
+        );
+      }
+      if (!Query) {
+        throw missingComponent("Query");
+      }
       return (
         <Query
           resource={resource}
           params={params}
-          {...mergeDeepRight(commonProps || {}, specific.Query)}
+          stale={stale}
+          isRefreshing={stale !== undefined}
+          progress={progress}
+          {...mergeDeepRight(commonProps, specific.Query)}
         />
       );
     },
     Empty({ params }: Empty<Q>) {
+      if (!Empty) {
+        throw missingComponent("Empty");
+      }
       return (
         <Empty
           resource={resource}
           params={params}
-          {...mergeDeepRight(commonProps || {}, specific.Empty)}
+          {...mergeDeepRight(commonProps, specific.Empty)}
         />
       );
     },
@@ -165,17 +329,21 @@ export const ResourceRender = <T, Q>(
           resource={resource}
           value={value}
           params={params}
-          {...mergeDeepRight(commonProps || {}, specific.Data)}
+          isRefreshing={false}
+          {...mergeDeepRight(commonProps, specific.Data)}
         />
       );
     },
-    Failure({ messages, params }: Failure<Q>) {
+    Failure({ messages, params }: Failure<Q, E>) {
+      if (!Failure) {
+        throw missingComponent("Failure");
+      }
       return (
         <Failure
           resource={resource}
           messages={messages}
           params={params}
-          {...mergeDeepRight(commonProps || {}, specific.Failure)}
+          {...mergeDeepRight(commonProps, specific.Failure)}
         />
       );
     }
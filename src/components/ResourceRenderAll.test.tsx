@@ -0,0 +1,174 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, render } from "@testing-library/react";
+import {
+  ResourceRenderAll,
+  ResourceRenderAllFailureProps
+} from "./ResourceRenderAll";
+import { ResourceRenderProvider } from "./ResourceRenderProvider";
+import { ResourceFailureProps } from "./ResourceRender";
+import {
+  Resource,
+  Query,
+  Data,
+  Empty,
+  Failure
+} from "../unions/Resource";
+
+type Page = {
+  user: Resource<string, undefined>;
+  org: Resource<string, undefined>;
+};
+
+const states = {
+  Query: () => <p>Loading</p>,
+  Empty: () => <p>Empty</p>,
+  Failure: ({
+    messages,
+    failedKeys,
+    messagesByKey
+  }: ResourceRenderAllFailureProps<Page>) => (
+    <p>
+      Failure: {messages.join()} in {failedKeys.join()} (
+      {JSON.stringify(messagesByKey)})
+    </p>
+  )
+};
+
+const renderPage = (resources: Page, staleWhileRevalidate = false) =>
+  render(
+    <ResourceRenderAll
+      resources={resources}
+      staleWhileRevalidate={staleWhileRevalidate}
+      Data={({ value, isRefreshing }) => (
+        <p>
+          {value.user} at {value.org}
+          {isRefreshing ? " (refreshing)" : ""}
+        </p>
+      )}
+      {...states}
+    />
+  ).container.textContent;
+
+describe("ResourceRenderAll", () => {
+  it("renders the values of a record of Resources", () => {
+    expect(
+      renderPage({ user: Data.of("Jane"), org: Data.of("Acme") })
+    ).toBe("Jane at Acme");
+  });
+
+  it("renders the values of a tuple of Resources", () => {
+    const { container } = render(
+      <ResourceRenderAll
+        resources={[Data.of("Jane"), Data.of(42)]}
+        Data={({ value: [name, age] }) => (
+          <p>
+            {name.toUpperCase()} is {age.toFixed(1)}
+          </p>
+        )}
+      />
+    );
+    expect(container.textContent).toBe("JANE is 42.0");
+  });
+
+  it("gives Failure precedence over Query, and Query over Empty", () => {
+    expect(
+      renderPage({ user: Query.of(), org: Failure.of(["Not found"]) })
+    ).toMatch(/^Failure/);
+    expect(renderPage({ user: Empty.of(), org: Query.of() })).toBe(
+      "Loading"
+    );
+    expect(
+      renderPage({ user: Data.of("Jane"), org: Empty.of() })
+    ).toBe("Empty");
+  });
+
+  it("passes the failing keys and their messages to Failure", () => {
+    expect(
+      renderPage({
+        user: Failure.of(["No user"]),
+        org: Failure.of(["No org", "Forbidden"])
+      })
+    ).toBe(
+      'Failure: No user,No org,Forbidden in user,org ({"user":["No user"],"org":["No org","Forbidden"]})'
+    );
+  });
+
+  it("indexes the failing keys of a tuple", () => {
+    const { container } = render(
+      <ResourceRenderAll
+        resources={[Data.of("Jane"), Failure.of(["No org"])]}
+        Data={() => null}
+        Failure={({ failedKeys, messagesByKey }) => (
+          <p>
+            {failedKeys.join()}: {messagesByKey[1]?.join()}
+          </p>
+        )}
+      />
+    );
+    expect(container.textContent).toBe("1: No org");
+  });
+
+  it("keeps the failing keys of a Failure held by queryDelayMs", () => {
+    jest.useFakeTimers();
+    const view = (resources: Page) => (
+      <ResourceRenderAll
+        resources={resources}
+        queryDelayMs={200}
+        Data={() => null}
+        {...states}
+      />
+    );
+    const { container, rerender } = render(
+      view({ user: Failure.of(["boom"]), org: Data.of("Acme") })
+    );
+    rerender(view({ user: Query.of(), org: Data.of("Acme") }));
+    expect(container.textContent).toBe(
+      'Failure: boom in user ({"user":["boom"]})'
+    );
+    act(() => {
+      jest.advanceTimersByTime(200);
+    });
+    expect(container.textContent).toBe("Loading");
+    jest.useRealTimers();
+  });
+
+  it("renders stale values while refreshing with staleWhileRevalidate", () => {
+    const page: Page = {
+      user: Data.of<string, undefined>("Jane").refresh(),
+      org: Data.of("Acme")
+    };
+    expect(renderPage(page)).toBe("Loading");
+    expect(renderPage(page, true)).toBe("Jane at Acme (refreshing)");
+    expect(
+      renderPage({ user: Query.of(), org: Data.of("Acme") }, true)
+    ).toBe("Loading");
+  });
+
+  it("passes the failing keys to the Failure of ResourceRenderProvider", () => {
+    // Shared with ResourceRender, so the failing keys are optional
+    const SharedFailure = ({
+      messages,
+      failedKeys
+    }: ResourceFailureProps<unknown, unknown> & {
+      failedKeys?: string[];
+    }) => (
+      <p>
+        Failure: {messages.join()} in {failedKeys?.join()}
+      </p>
+    );
+    const { container } = render(
+      <ResourceRenderProvider Failure={SharedFailure}>
+        <ResourceRenderAll
+          resources={{
+            user: Data.of("Jane"),
+            org: Failure.of(["No org"])
+          }}
+          Data={() => null}
+        />
+      </ResourceRenderProvider>
+    );
+    expect(container.textContent).toBe("Failure: No org in org");
+  });
+});
@@ -0,0 +1,218 @@
+import React, { useMemo } from "react";
+import {
+  Resource,
+  ResourceTypes,
+  ResourceValue,
+  ResourceError,
+  sequence,
+  combine
+} from "../unions/Resource";
+import {
+  ResourceRender,
+  ResourceDataProps,
+  ResourceQueryProps,
+  ResourceEmptyProps,
+  ResourceFailureProps
+} from "./ResourceRender";
+import { useResourceRenderDefaults } from "./ResourceRenderProvider";
+
+/**
+ * A tuple or record of Resources, as accepted by `ResourceRenderAll`.
+ */
+export type ResourceCollection =
+  | readonly Resource<any, any, any>[]
+  | Record<string, Resource<any, any, any>>;
+
+/**
+ * The values of a tuple or record of Resources, with the same shape.
+ * @typeParam Rs - A tuple or record of Resources.
+ */
+export type ResourceValues<Rs extends ResourceCollection> = {
+  -readonly [K in keyof Rs]: ResourceValue<Rs[K]>;
+};
+
+/**
+ * The keys of a tuple or record of Resources: indexes for a tuple, property names for a record.
+ * @typeParam Rs - A tuple or record of Resources.
+ */
+export type ResourceKey<Rs extends ResourceCollection> =
+  Rs extends readonly unknown[] ? number : keyof Rs;
+
+/**
+ * The union of the `Failure` error types of a tuple or record of Resources.
+ * @typeParam Rs - A tuple or record of Resources.
+ */
+export type ResourcesError<Rs extends ResourceCollection> =
+  Rs extends readonly unknown[]
+    ? ResourceError<Rs[number]>
+    : ResourceError<Rs[keyof Rs]>;
+
+/**
+ * Props for the Failure component of `ResourceRenderAll`, with the errors of every
+ * failing Resource and which ones failed.
+ * @typeParam Rs - A tuple or record of Resources.
+ */
+export interface ResourceRenderAllFailureProps<
+  Rs extends ResourceCollection
+> extends ResourceFailureProps<
+    ResourceValues<Rs>,
+    undefined,
+    ResourcesError<Rs>
+  > {
+  /** Keys of the failing Resources, in input order. */
+  failedKeys: ResourceKey<Rs>[];
+  /** Errors of each failing Resource, by key. */
+  messagesByKey: Partial<
+    Record<ResourceKey<Rs>, ResourcesError<Rs>[]>
+  >;
+}
+
+/**
+ * The failing keys and their errors of each combined `Failure`, kept with the Failure itself
+ * since `queryDelayMs` or `minQueryDurationMs` may keep showing it over newer Resources.
+ */
+const keyedFailures = new WeakMap<
+  Resource<any, any, any>,
+  Pick<
+    ResourceRenderAllFailureProps<any>,
+    "failedKeys" | "messagesByKey"
+  >
+>();
+
+/**
+ * Props for the ResourceRenderAll component.
+ * @typeParam Rs - A tuple or record of Resources.
+ */
+interface Props<Rs extends ResourceCollection> {
+  /** The tuple or record of Resources to render. */
+  resources: Rs;
+  /** Component to render once every Resource is `Data`, with their values in the same shape. */
+  Data: React.FC<
+    ResourceDataProps<
+      ResourceValues<Rs>,
+      undefined,
+      ResourcesError<Rs>
+    >
+  >;
+  /** Component to render while any Resource is a `Query`; defaults to the one of `ResourceRenderProvider`. */
+  Query?: React.FC<
+    ResourceQueryProps<
+      ResourceValues<Rs>,
+      undefined,
+      ResourcesError<Rs>
+    >
+  >;
+  /** Component to render when any Resource is `Empty`; defaults to the one of `ResourceRenderProvider`. */
+  Empty?: React.FC<
+    ResourceEmptyProps<
+      ResourceValues<Rs>,
+      undefined,
+      ResourcesError<Rs>
+    >
+  >;
+  /** Component to render when any Resource is a `Failure`; defaults to the one of `ResourceRenderProvider`. */
+  Failure?: React.FC<ResourceRenderAllFailureProps<Rs>>;
+  /**
+   * When true, a Query where every Resource is `Data` or refreshing renders the Data
+   * component with the stale values and `isRefreshing` set.
+   */
+  staleWhileRevalidate?: boolean;
+  /** Delay before the Query component is shown, in milliseconds (see `ResourceRender`). */
+  queryDelayMs?: number;
+  /** Minimum time the Query component stays shown once it is, in milliseconds (see `ResourceRender`). */
+  minQueryDurationMs?: number;
+  /** Common props to pass to all state components, merged over those of `ResourceRenderProvider`. */
+  commonProps?: any;
+  /** State-specific props to merge with commonProps for each state. */
+  matchingProps?: {
+    Data?: any;
+    Query?: any;
+    Empty?: any;
+    Failure?: any;
+  };
+}
+
+/**
+ * A component that renders a tuple or record of Resources as one, once every Resource is
+ * `Data`, with their values typed together. Otherwise it renders a single Query, Empty or
+ * Failure, with the precedence and error aggregation of `Resource.sequence`; the Failure
+ * component also gets the keys of the failing Resources and their errors by key.
+ * @typeParam Rs - A tuple or record of Resources.
+ * @param props - The component props, including the Resources and rendering components.
+ * @returns A React node representing the combined Resource state.
+ *
+ * @example
+ * <ResourceRenderAll
+ *   resources={{ user, org, permissions }}
+ *   Data={({ value }) => <Page user={value.user} org={value.org} permissions={value.permissions} />}
+ *   Failure={({ messages, failedKeys }) => <p>Could not load {failedKeys.join(', ')}: {messages.join(', ')}</p>}
+ * />
+ *
+ * @example
+ * <ResourceRenderAll
+ *   resources={[user, org]}
+ *   Data={({ value: [user, org] }) => <p>{user.name} at {org.name}</p>}
+ * />
+ */
+export const ResourceRenderAll = <
+  const Rs extends ResourceCollection
+>(
+  props: Props<Rs>
+): React.ReactNode => {
+  const defaults = useResourceRenderDefaults();
+  const { resources, Failure = defaults.Failure, ...render } = props;
+  const entries: [ResourceKey<Rs>, Resource<any, any, any>][] =
+    Array.isArray(resources)
+      ? resources.map((resource, index) => [
+          index as ResourceKey<Rs>,
+          resource
+        ])
+      : Object.entries(resources).map(([key, resource]) => [
+          key as ResourceKey<Rs>,
+          resource
+        ]);
+  const resource = (
+    Array.isArray(resources)
+      ? sequence(resources)
+      : combine(resources as Record<string, Resource<any, any, any>>)
+  ) as Resource<ResourceValues<Rs>, undefined, ResourcesError<Rs>>;
+  if (resource.type === ResourceTypes.Failure) {
+    const failures = entries.flatMap(([key, resource]) =>
+      resource.type === ResourceTypes.Failure
+        ? [[key, resource.messages] as const]
+        : []
+    );
+    keyedFailures.set(resource, {
+      failedKeys: failures.map(([key]) => key),
+      messagesByKey: Object.fromEntries(failures)
+    });
+  }
+  // Gets the failing keys of the Failure it renders, which may be an older one
+  const KeyedFailure = useMemo(
+    () =>
+      Failure &&
+      ((
+        failureProps: ResourceFailureProps<
+          ResourceValues<Rs>,
+          undefined,
+          ResourcesError<Rs>
+        >
+      ) => (
+        <Failure
+          {...({
+            ...failureProps,
+            ...keyedFailures.get(failureProps.resource)
+          } as ResourceRenderAllFailureProps<Rs>)}
+        />
+      )),
+    [Failure]
+  );
+
+  return (
+    <ResourceRender
+      {...render}
+      resource={resource}
+      Failure={KeyedFailure}
+    />
+  );
+};
@@ -0,0 +1,153 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render } from "@testing-library/react";
+import { ResourceRenderProvider } from "./ResourceRenderProvider";
+import { ResourceRender } from "./ResourceRender";
+import {
+  Resource,
+  Query,
+  Data,
+  Empty,
+  Failure
+} from "../unions/Resource";
+
+type User = Resource<string, undefined>;
+
+const Name = ({ value }: { value: string }) => <p>{value}</p>;
+
+interface CommonProps {
+  resource: User;
+  className?: string;
+  id?: string;
+  style?: { color?: string; margin?: number };
+}
+
+// Renders a label with the className and id props it receives
+const Labeled =
+  (label: string) =>
+  ({ className, id }: CommonProps) => (
+    <p>
+      {label} {className} {id}
+    </p>
+  );
+
+describe("ResourceRenderProvider", () => {
+  it("supplies the default Query, Empty and Failure components", () => {
+    const view = (resource: User) => (
+      <ResourceRenderProvider
+        Query={() => <p>Loading</p>}
+        Empty={() => <p>Empty</p>}
+        Failure={({ messages }) => <p>Failure: {messages.join()}</p>}
+      >
+        <ResourceRender resource={resource} Data={Name} />
+      </ResourceRenderProvider>
+    );
+    const { container, rerender } = render(view(Query.of()));
+    expect(container.textContent).toBe("Loading");
+    rerender(view(Empty.of()));
+    expect(container.textContent).toBe("Empty");
+    rerender(view(Failure.of(["Not found"])));
+    expect(container.textContent).toBe("Failure: Not found");
+    rerender(view(Data.of("Jane")));
+    expect(container.textContent).toBe("Jane");
+  });
+
+  it("lets each call override the defaults", () => {
+    const { container } = render(
+      <ResourceRenderProvider
+        Query={() => <p>Loading</p>}
+        commonProps={{ className: "default" }}
+      >
+        <ResourceRender
+          resource={Query.of()}
+          Data={Name}
+          Query={Labeled("Fetching")}
+          commonProps={{ className: "call" }}
+        />
+      </ResourceRenderProvider>
+    );
+    expect(container.textContent).toBe("Fetching call ");
+  });
+
+  it("overrides components and deep-merges commonProps of outer providers", () => {
+    const view = (resource: User) => (
+      <ResourceRenderProvider
+        Query={Labeled("Loading")}
+        Empty={Labeled("Empty")}
+        commonProps={{ className: "outer", id: "outer" }}
+      >
+        <ResourceRenderProvider
+          Query={Labeled("Inline")}
+          commonProps={{ className: "inner" }}
+        >
+          <ResourceRender resource={resource} Data={Name} />
+        </ResourceRenderProvider>
+      </ResourceRenderProvider>
+    );
+    const { container, rerender } = render(view(Query.of()));
+    expect(container.textContent).toBe("Inline inner outer");
+    rerender(view(Empty.of()));
+    expect(container.textContent).toBe("Empty inner outer");
+  });
+
+  it("deep-merges nested commonProps", () => {
+    const Styled = ({ style }: CommonProps) => (
+      <p style={style}>Loading</p>
+    );
+    const { container } = render(
+      <ResourceRenderProvider
+        commonProps={{ style: { color: "red", margin: 0 } }}
+      >
+        <ResourceRenderProvider
+          commonProps={{ style: { color: "blue" } }}
+        >
+          <ResourceRender
+            resource={Query.of()}
+            Data={Name}
+            Query={Styled}
+          />
+        </ResourceRenderProvider>
+      </ResourceRenderProvider>
+    );
+    const paragraph = container.querySelector("p")!;
+    expect(paragraph.style.color).toBe("blue");
+    expect(paragraph.style.margin).toBe("0px");
+  });
+
+  it("does not re-render consumers for equal inline commonProps", () => {
+    const Counted = jest.fn(Labeled("Loading"));
+    // Created once, so only a change of the defaults re-renders it
+    const child = (
+      <ResourceRender resource={Query.of()} Data={Name} />
+    );
+    const view = (className: string) => (
+      <ResourceRenderProvider
+        Query={Counted}
+        commonProps={{ className }}
+      >
+        {child}
+      </ResourceRenderProvider>
+    );
+    const { container, rerender } = render(view("a"));
+    rerender(view("a"));
+    expect(Counted).toHaveBeenCalledTimes(1);
+    rerender(view("b"));
+    expect(Counted).toHaveBeenCalledTimes(2);
+    expect(container.textContent).toBe("Loading b ");
+  });
+
+  it("throws when a state has no component", () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    expect(() =>
+      render(
+        <ResourceRenderProvider Query={() => <p>Loading</p>}>
+          <ResourceRender resource={Empty.of()} Data={Name} />
+        </ResourceRenderProvider>
+      )
+    ).toThrow(
+      "ResourceRender has no Empty component; pass one or wrap it in a ResourceRenderProvider"
+    );
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,101 @@
+import React, {
+  createContext,
+  useContext,
+  useMemo,
+  useRef
+} from "react";
+import { equals, mergeDeepRight } from "ramda";
+import {
+  ResourceQueryProps,
+  ResourceEmptyProps,
+  ResourceFailureProps
+} from "./ResourceRender";
+
+/**
+ * Default state components and props used by `ResourceRender` when a call omits them.
+ */
+export interface ResourceRenderDefaults {
+  /** Default component for the Query state. */
+  Query?: React.FC<ResourceQueryProps<any, any, any>>;
+  /** Default component for the Empty state. */
+  Empty?: React.FC<ResourceEmptyProps<any, any, any>>;
+  /** Default component for the Failure state. */
+  Failure?: React.FC<ResourceFailureProps<any, any, any>>;
+  /**
+   * Default common props, merged under the `commonProps` of each call.
+   * Compared by value, so an inline object does not re-render the `ResourceRender`s below;
+   * functions inside it are compared by reference and should be stable.
+   */
+  commonProps?: any;
+}
+
+/**
+ * Props for the ResourceRenderProvider component.
+ */
+export interface ResourceRenderProviderProps
+  extends ResourceRenderDefaults {
+  /** The section using these defaults. */
+  children?: React.ReactNode;
+}
+
+const ResourceRenderContext = createContext<ResourceRenderDefaults>(
+  {}
+);
+
+/**
+ * Returns the defaults of the nearest `ResourceRenderProvider`, or none outside of one.
+ * @returns The default state components and common props.
+ */
+export const useResourceRenderDefaults = (): ResourceRenderDefaults =>
+  useContext(ResourceRenderContext);
+
+/**
+ * Supplies default Query, Empty and Failure components and common props to every
+ * `ResourceRender` below it, so calls only need the `Data` component.
+ * Nested providers override the components they set and deep-merge their `commonProps`
+ * over the outer ones; each `ResourceRender` can still override any of them.
+ * @param props - The default components and common props, and the children using them.
+ * @returns The children, rendered with the merged defaults.
+ *
+ * @example
+ * <ResourceRenderProvider
+ *   Query={Spinner}
+ *   Empty={() => <p>Nothing here</p>}
+ *   Failure={({ messages }) => <ErrorBanner messages={messages} />}
+ *   commonProps={{ className: 'resource' }}
+ * >
+ *   <ResourceRender resource={user} Data={({ value }) => <p>{value.name}</p>} />
+ *   <ResourceRenderProvider Query={InlineSpinner}>
+ *     <ResourceRender resource={posts} Data={PostList} />
+ *   </ResourceRenderProvider>
+ * </ResourceRenderProvider>
+ */
+export const ResourceRenderProvider = (
+  props: ResourceRenderProviderProps
+): React.ReactNode => {
+  const { children, Query, Empty, Failure } = props;
+  const parent = useResourceRenderDefaults();
+  // Kept while equal, so inline commonProps do not defeat the memo below
+  const stable = useRef(props.commonProps);
+  if (!equals(stable.current, props.commonProps)) {
+    stable.current = props.commonProps;
+  }
+  const commonProps = stable.current;
+  const defaults = useMemo(
+    () => ({
+      Query: Query ?? parent.Query,
+      Empty: Empty ?? parent.Empty,
+      Failure: Failure ?? parent.Failure,
+      commonProps: mergeDeepRight(
+        parent.commonProps || {},
+        commonProps || {}
+      )
+    }),
+    [parent, Query, Empty, Failure, commonProps]
+  );
+  return (
+    <ResourceRenderContext.Provider value={defaults}>
+      {children}
+    </ResourceRenderContext.Provider>
+  );
+};
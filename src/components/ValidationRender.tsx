@@ -1,5 +1,12 @@
 import React from "react";
-import { Validation, Failing, Passing } from "../unions/Validation";
+import {
+  Validation,
+  Failing,
+  Passing,
+  ValidationError,
+  toMessages
+} from "../unions/Validation";
+import { MessageCatalog } from "../validators/MessageCatalog";
 
 /**
  * Props for rendering a Validation ADT state.
@@ -17,6 +24,21 @@ export interface ValidationRenderProps<T> {
 export interface PassingProps<T> extends ValidationRenderProps<T> {
   /** The validated value from the Passing state. */
   value: T;
+  /** Array of warning messages from the Passing state, formatted like Failing messages. */
+  warningMessages: string[];
+  /** Array of structured warnings from the Passing state. */
+  warnings: ValidationError[];
+}
+
+/**
+ * Props for the Warnings component, rendered next to the Passing component when there are warnings.
+ * @typeParam T - The type of the data in `Passing` state.
+ */
+export interface WarningsProps<T> extends ValidationRenderProps<T> {
+  /** Array of warning messages, formatted like Failing messages. */
+  messages: string[];
+  /** Array of structured warnings. */
+  warnings: ValidationError[];
 }
 
 /**
@@ -24,8 +46,10 @@ export interface PassingProps<T> extends ValidationRenderProps<T> {
  * @typeParam T - The type of the data in `Passing` state (unused in Failing).
  */
 export interface FailingProps<T> extends ValidationRenderProps<T> {
-  /** Array of error messages from the Failing state. */
+  /** Array of error messages from the Failing state, formatted with `formatError` or `catalog` when given. */
   messages: string[];
+  /** Array of structured errors from the Failing state. */
+  errors: ValidationError[];
 }
 
 /**
@@ -39,6 +63,12 @@ interface Props<T> {
   Passing: React.FC<PassingProps<T>>;
   /** Component to render for the Failing state. */
   Failing: React.FC<FailingProps<T>>;
+  /** Component to render after the Passing component when the Passing state has warnings. */
+  Warnings?: React.FC<WarningsProps<T>>;
+  /** Converts each error into an entry of `messages`; defaults to the error message. */
+  formatError?: (error: ValidationError) => string;
+  /** Translates each error into an entry of `messages`, unless `formatError` is given. */
+  catalog?: MessageCatalog;
 }
 
 /**
@@ -52,18 +82,76 @@ interface Props<T> {
  * const MyFailing: React.FC<FailingProps<number>> = ({ messages }) => <p>Errors: {messages.join(', ')}</p>;
  * const validation = Validation.Passing(42);
  * <ValidationRender validation={validation} Passing={MyPassing} Failing={MyFailing} />
+ *
+ * @example
+ * // Prefix every message with the path of its field
+ * <ValidationRender
+ *   validation={form}
+ *   Passing={MyPassing}
+ *   Failing={MyFailing}
+ *   formatError={(error) => `${formatPath(error.path)}: ${error.message}`}
+ * />
+ *
+ * @example
+ * // Translate messages for the user's locale
+ * <ValidationRender
+ *   validation={form}
+ *   Passing={MyPassing}
+ *   Failing={MyFailing}
+ *   catalog={catalog.withLocale(user.locale)}
+ * />
+ *
+ * @example
+ * // Show non-blocking warnings below a valid password
+ * <ValidationRender
+ *   validation={password}
+ *   Passing={MyPassing}
+ *   Failing={MyFailing}
+ *   Warnings={({ messages }) => <small>{messages.join(', ')}</small>}
+ * />
  */
 export const ValidationRender = function <T>(
   props: Props<T>
 ): React.ReactNode {
-  const { validation, Passing, Failing } = props;
+  const {
+    validation,
+    Passing,
+    Failing,
+    Warnings,
+    formatError,
+    catalog
+  } = props;
+  const format = formatError ?? catalog?.resolver();
   return validation.matchWith({
     Passing(passing: Passing<T>) {
-      return <Passing validation={passing} value={passing.value} />;
+      const messages = passing.warnings.map(
+        format ?? ((warning) => warning.message)
+      );
+      return (
+        <>
+          <Passing
+            validation={passing}
+            value={passing.value}
+            warningMessages={messages}
+            warnings={passing.warnings}
+          />
+          {Warnings && messages.length > 0 && (
+            <Warnings
+              validation={passing}
+              messages={messages}
+              warnings={passing.warnings}
+            />
+          )}
+        </>
+      );
     },
     Failing(failing: Failing) {
       return (
-        <Failing validation={failing} messages={failing.messages} />
+        <Failing
+          validation={failing}
+          messages={toMessages(failing, format)}
+          errors={failing.errors}
+        />
       );
     }
   });
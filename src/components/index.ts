@@ -1,2 +1,5 @@
 export * from "./ResourceRender";
+export * from "./ResourceRenderProvider";
+export * from "./ResourceRenderAll";
+export * from "./ResourceBoundary";
 export * from "./ValidationRender";
@@ -0,0 +1,2 @@
+// Separate entry point, so only its users need the optional rxjs peer
+export * from "./redux/resourceEpic";
@@ -0,0 +1,2 @@
+export * from "./useValidatedForm";
+export * from "./useResource";
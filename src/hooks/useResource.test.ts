@@ -0,0 +1,178 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useResource, UseResourceOptions } from "./useResource";
+import {
+  Resource,
+  Data,
+  Empty,
+  Failure,
+  Query
+} from "../unions/Resource";
+
+describe("useResource", () => {
+  // Local stub whose responses are resolved by the test, in any order
+  const createServer = () => {
+    const requests: {
+      params: { id: number };
+      signal: AbortSignal;
+      resolve: (value: string) => void;
+      reject: (error: unknown) => void;
+    }[] = [];
+    const fetcher = jest.fn(
+      (params: { id: number }, signal: AbortSignal) =>
+        new Promise<string>((resolve, reject) =>
+          requests.push({ params, signal, resolve, reject })
+        )
+    );
+    return { fetcher, requests };
+  };
+
+  const renderResource = (
+    fetcher: (
+      params: { id: number },
+      signal: AbortSignal
+    ) => Promise<string>,
+    params: { id: number } | undefined,
+    options?: UseResourceOptions
+  ) =>
+    renderHook(
+      ({ params }) => useResource(fetcher, params, options),
+      { initialProps: { params } }
+    );
+
+  it("starts from Query and settles to Data", async () => {
+    const { fetcher, requests } = createServer();
+    const { result } = renderResource(fetcher, { id: 1 });
+
+    expect(result.current.resource).toBeInstanceOf(Query);
+    await act(async () => requests[0].resolve("user 1"));
+
+    expect(result.current.resource).toBeInstanceOf(Data);
+    expect(result.current.resource.getDataOr("")).toBe("user 1");
+    expect(result.current.resource.params).toEqual({ id: 1 });
+    expect(result.current.resource.meta?.source).toBe("network");
+  });
+
+  it("stores a Failure when the fetcher rejects", async () => {
+    const { fetcher, requests } = createServer();
+    const { result } = renderResource(fetcher, { id: 1 });
+
+    await act(async () => requests[0].reject(new Error("Not found")));
+
+    expect(result.current.resource).toEqual(
+      expect.objectContaining({ messages: ["Not found"] })
+    );
+    expect(result.current.resource).toBeInstanceOf(Failure);
+  });
+
+  it("refetches when params change and ignores out-of-order responses", async () => {
+    const { fetcher, requests } = createServer();
+    const { result, rerender } = renderResource(fetcher, { id: 1 });
+
+    rerender({ params: { id: 2 } });
+    expect(requests[0].signal.aborted).toBe(true);
+    await act(async () => requests[1].resolve("user 2"));
+    await act(async () => requests[0].resolve("user 1"));
+
+    expect(result.current.resource.getDataOr("")).toBe("user 2");
+  });
+
+  it("does not refetch for equal params built on each render", () => {
+    const { fetcher } = createServer();
+    const { rerender } = renderResource(fetcher, { id: 1 });
+
+    rerender({ params: { id: 1 } });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses Empty while params are undefined when asked to", async () => {
+    const { fetcher, requests } = createServer();
+    const { result, rerender } = renderResource(fetcher, undefined, {
+      emptyWhenUndefined: true
+    });
+
+    expect(result.current.resource).toBeInstanceOf(Empty);
+    expect(fetcher).not.toHaveBeenCalled();
+
+    rerender({ params: { id: 1 } });
+    expect(result.current.resource).toBeInstanceOf(Query);
+    rerender({ params: undefined });
+    expect(result.current.resource).toBeInstanceOf(Empty);
+    expect(requests[0].signal.aborted).toBe(true);
+  });
+
+  it("keeps stale Data on refetch and, optionally, on params changes", async () => {
+    const { fetcher, requests } = createServer();
+    const { result, rerender } = renderResource(
+      fetcher,
+      { id: 1 },
+      {
+        staleWhileRevalidate: true
+      }
+    );
+    await act(async () => requests[0].resolve("user 1"));
+
+    let refetched: Promise<
+      Resource<string, { id: number }> | undefined
+    >;
+    act(() => {
+      refetched = result.current.refetch();
+    });
+    expect(Resource.isRefreshing(result.current.resource)).toBe(true);
+    await act(async () => requests[1].resolve("user 1 again"));
+    expect((await refetched!)?.getDataOr("")).toBe("user 1 again");
+
+    rerender({ params: { id: 2 } });
+    expect(result.current.resource.getDataOr("")).toBe(
+      "user 1 again"
+    );
+    expect(result.current.resource.params).toEqual({ id: 2 });
+  });
+
+  it("fetches other params with update", async () => {
+    const { fetcher, requests } = createServer();
+    const { result } = renderResource(fetcher, { id: 1 });
+
+    act(() => {
+      result.current.update({ id: 3 });
+    });
+    await act(async () => requests[1].resolve("user 3"));
+    expect(result.current.resource.getDataOr("")).toBe("user 3");
+
+    act(() => {
+      result.current.refetch();
+    });
+    expect(requests[2].params).toEqual({ id: 3 });
+  });
+
+  it("aborts the request on unmount", async () => {
+    const { fetcher, requests } = createServer();
+    const { unmount } = renderResource(fetcher, { id: 1 });
+
+    unmount();
+
+    await waitFor(() =>
+      expect(requests[0].signal.aborted).toBe(true)
+    );
+  });
+
+  it("passes run options such as timeouts", async () => {
+    jest.useFakeTimers();
+    const { fetcher } = createServer();
+    const { result } = renderResource(
+      fetcher,
+      { id: 1 },
+      { timeoutMs: 100 }
+    );
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(100);
+    });
+    jest.useRealTimers();
+
+    expect(result.current.resource).toBeInstanceOf(Failure);
+  });
+});
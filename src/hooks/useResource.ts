@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Resource,
+  Query,
+  Empty,
+  RunOptions,
+  paramsKey,
+  run
+} from "../unions/Resource";
+import { suspendOn } from "../unions/suspense";
+
+/**
+ * Options for `useResource`: the timeout, retry and error conversion options of
+ * `Resource.run`, plus how params changes are rendered.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export interface UseResourceOptions<E = string>
+  extends Omit<RunOptions<E>, "signal"> {
+  /** Uses `Empty` instead of fetching while params are undefined. */
+  emptyWhenUndefined?: boolean;
+  /** Keeps the previous `Data` as stale while fetching new params (see `Resource.refresh`). */
+  staleWhileRevalidate?: boolean;
+}
+
+/**
+ * The current Resource of `useResource` and functions to fetch it again.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of the params.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export interface UseResourceResult<T, Q, E = string> {
+  /** The current Resource. */
+  resource: Resource<T, Q, E>;
+  /**
+   * Fetches the current params again, keeping any `Data` as stale.
+   * Resolves with the result, or `undefined` when a newer request supersedes it.
+   */
+  refetch: () => Promise<Resource<T, Q, E> | undefined>;
+  /**
+   * Fetches other params, used until the `params` argument changes.
+   * Resolves with the result, or `undefined` when a newer request supersedes it.
+   */
+  update: (params: Q) => Promise<Resource<T, Q, E> | undefined>;
+}
+
+/**
+ * A promise with its resolve function.
+ */
+const defer = <R>() => {
+  let resolve: (value: R | Promise<R>) => void = () => undefined;
+  const promise = new Promise<R>((settle) => {
+    resolve = settle;
+  });
+  return { promise, resolve };
+};
+
+/**
+ * Fetches a Resource for some params, refetching whenever they change (compared with
+ * `Resource.paramsKey`). Starts from `Query`, aborts the previous request when a newer
+ * one starts, ignores out-of-order responses and aborts on unmount.
+ * The fetcher may change between renders without causing a refetch.
+ * Its `Query`s can be read with `readResource` inside a `ResourceBoundary`.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of the params.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @param fetcher - Fetches the data for some params; it receives an AbortSignal.
+ * @param params - The params to fetch, or `undefined` (see `emptyWhenUndefined`).
+ * @param options - Run options and rendering options.
+ *
+ * @example
+ * const { resource, refetch } = useResource(
+ *   ({ id }, signal) => fetch(`/users/${id}`, { signal }).then(r => r.json()),
+ *   userId ? { id: userId } : undefined,
+ *   { emptyWhenUndefined: true, timeoutMs: 5000 }
+ * );
+ * <ResourceRender resource={resource} Data={User} Query={Spinner} Empty={Pick} Failure={Retry} />
+ */
+export const useResource = <T, Q, E = string>(
+  fetcher: (params: Q, signal: AbortSignal) => Promise<T>,
+  params: Q | undefined,
+  options: UseResourceOptions<E> = {}
+): UseResourceResult<T, Q, E> => {
+  const { emptyWhenUndefined = false, staleWhileRevalidate = false } =
+    options;
+  const isEmpty = params === undefined && emptyWhenUndefined;
+  // The first Query renders before the effect starts its request, so it
+  // suspends on a promise settled with that request
+  const first = useRef(defer<Resource<T, Q, E>>());
+  const [resource, setResource] = useState<Resource<T, Q, E>>(() =>
+    isEmpty
+      ? Empty.of(params)
+      : suspendOn(Query.of<Q, T>(params), first.current.promise)
+  );
+  // Latest values for callbacks, so they do not restart the request
+  const latest = useRef({ fetcher, options, params });
+  latest.current.fetcher = fetcher;
+  latest.current.options = options;
+  const requestId = useRef(0);
+  const controller = useRef<AbortController | undefined>(undefined);
+
+  const cancel = useCallback(() => {
+    requestId.current += 1;
+    controller.current?.abort();
+  }, []);
+
+  const load = useCallback(
+    async (
+      next: Q,
+      keepStale: boolean
+    ): Promise<Resource<T, Q, E> | undefined> => {
+      cancel();
+      const id = requestId.current;
+      const current = new AbortController();
+      controller.current = current;
+      const request = run(latest.current.fetcher, next, {
+        ...latest.current.options,
+        signal: current.signal
+      });
+      first.current.resolve(request);
+      // Registered so `readResource` can suspend on the request
+      setResource((previous) =>
+        suspendOn(
+          keepStale ? previous.refresh(next) : Query.of<Q, T>(next),
+          request
+        )
+      );
+      const result = await request;
+      // A newer request, or the unmount, has superseded this one
+      if (id !== requestId.current) {
+        return undefined;
+      }
+      const settled = result.withMeta({
+        fetchedAt: Date.now(),
+        source: "network"
+      });
+      setResource(settled);
+      return settled;
+    },
+    [cancel]
+  );
+
+  // Params are compared by key, so equal params built on each render do not refetch
+  const key = paramsKey(params);
+  useEffect(() => {
+    latest.current.params = params;
+    if (isEmpty) {
+      cancel();
+      setResource(Empty.of(params));
+      return;
+    }
+    load(params as Q, staleWhileRevalidate);
+  }, [key, isEmpty]);
+
+  useEffect(() => cancel, [cancel]);
+
+  const refetch = useCallback(async () => {
+    const { params } = latest.current;
+    return params === undefined && emptyWhenUndefined
+      ? undefined
+      : load(params as Q, true);
+  }, [load, emptyWhenUndefined]);
+
+  const update = useCallback(
+    (next: Q) => {
+      latest.current.params = next;
+      return load(next, staleWhileRevalidate);
+    },
+    [load, staleWhileRevalidate]
+  );
+
+  return { resource, refetch, update };
+};
+
+export default useResource;
@@ -0,0 +1,200 @@
+/**
+ * @jest-environment jsdom
+ */
+import { act, renderHook } from "@testing-library/react";
+import { useValidatedForm, ValidationMode } from "./useValidatedForm";
+import { Validator } from "../validators/Validator";
+import { Passing, isFailing } from "../unions/Validation";
+
+describe("useValidatedForm", () => {
+  const validators = {
+    email: Validator.pipe(
+      Validator.required<string>(),
+      Validator.email()
+    ),
+    age: (input: string) =>
+      Validator.pipe(
+        Validator.integer(),
+        Validator.min(18)
+      )(Number(input)),
+    terms: Validator.rule<boolean>(
+      "terms",
+      Boolean,
+      "Must accept the terms"
+    )
+  };
+  const initialValues = { email: "", age: "", terms: false };
+
+  const renderForm = (mode?: ValidationMode) =>
+    renderHook(() =>
+      useValidatedForm(initialValues, validators, { mode })
+    );
+
+  it("tracks values, dirty and touched fields", () => {
+    const { result } = renderForm();
+
+    act(() => result.current.setValue("email", "jane@example.com"));
+    expect(result.current.values.email).toBe("jane@example.com");
+    expect(result.current.dirty).toEqual({
+      email: true,
+      age: false,
+      terms: false
+    });
+    expect(result.current.isDirty).toBe(true);
+    expect(result.current.touched.email).toBe(false);
+
+    act(() => result.current.setTouched("email"));
+    expect(result.current.touched.email).toBe(true);
+
+    act(() => result.current.setValue("email", ""));
+    expect(result.current.isDirty).toBe(false);
+  });
+
+  it("validates on change in onChange mode", () => {
+    const { result } = renderForm("onChange");
+    expect(result.current.validations.email).toBeUndefined();
+
+    act(() => result.current.setValue("email", "jane"));
+    const email = result.current.validations.email;
+    expect(
+      email && isFailing(email) && email.errors[0]
+    ).toMatchObject({
+      path: ["email"],
+      code: "email"
+    });
+  });
+
+  it("validates on blur only in onBlur mode", () => {
+    const { result } = renderForm("onBlur");
+
+    act(() => result.current.setValue("email", "jane"));
+    expect(result.current.validations.email).toBeUndefined();
+
+    act(() => result.current.setTouched("email"));
+    expect(isFailing(result.current.validations.email!)).toBe(true);
+
+    act(() => result.current.setValue("email", "jane@example.com"));
+    expect(isFailing(result.current.validations.email!)).toBe(true);
+
+    act(() => result.current.setTouched("email"));
+    expect(result.current.validations.email).toEqual(
+      Passing.of("jane@example.com")
+    );
+  });
+
+  it("validates on change after the first blur in onTouched mode", () => {
+    const { result } = renderForm("onTouched");
+
+    act(() => result.current.setValue("age", "12"));
+    expect(result.current.validations.age).toBeUndefined();
+    act(() => result.current.setTouched("age"));
+    expect(isFailing(result.current.validations.age!)).toBe(true);
+    act(() => result.current.setValue("age", "30"));
+    expect(result.current.validations.age).toEqual(Passing.of(30));
+  });
+
+  it("gates onSubmit to a typed Passing value", async () => {
+    const { result } = renderForm("onSubmit");
+    const onSubmit = jest.fn();
+    const onInvalid = jest.fn();
+    const preventDefault = jest.fn();
+
+    await act(() =>
+      result.current.handleSubmit(
+        onSubmit,
+        onInvalid
+      )({ preventDefault })
+    );
+    expect(preventDefault).toHaveBeenCalled();
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledTimes(1);
+    expect(result.current.submitCount).toBe(1);
+    expect(Object.keys(result.current.validations)).toEqual([
+      "email",
+      "age",
+      "terms"
+    ]);
+
+    act(() => {
+      result.current.setValue("email", "jane@example.com");
+      result.current.setValue("age", "30");
+      result.current.setValue("terms", true);
+    });
+    expect(result.current.validations.age).toEqual(Passing.of(30));
+
+    await act(() => result.current.handleSubmit(onSubmit)());
+    expect(onSubmit).toHaveBeenCalledWith({
+      email: "jane@example.com",
+      age: 30,
+      terms: true
+    });
+  });
+
+  it("reports isSubmitting while an async onSubmit runs", async () => {
+    const { result } = renderHook(() =>
+      useValidatedForm(
+        { name: "Jane" },
+        { name: Validator.required<string>() }
+      )
+    );
+    let finish!: () => void;
+    let submitting!: Promise<void>;
+
+    act(() => {
+      submitting = result.current.handleSubmit(
+        () => new Promise<void>((resolve) => (finish = resolve))
+      )();
+    });
+    expect(result.current.isSubmitting).toBe(true);
+
+    await act(async () => {
+      finish();
+      await submitting;
+    });
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  it("binds native inputs and custom components", () => {
+    const { result } = renderForm("onChange");
+
+    act(() =>
+      result.current
+        .bindInput("email")
+        .onChange({ target: { value: "jane@example.com" } })
+    );
+    act(() =>
+      result.current
+        .bindInput("terms")
+        .onChange({
+          target: { value: "on", type: "checkbox", checked: true }
+        })
+    );
+    act(() => result.current.bindValue("age").onChange("30"));
+    act(() => result.current.bindValue("age").onBlur());
+
+    expect(result.current.values).toEqual({
+      email: "jane@example.com",
+      age: "30",
+      terms: true
+    });
+    expect(result.current.bindInput("email")).toMatchObject({
+      name: "email",
+      value: "jane@example.com"
+    });
+    expect(result.current.touched.age).toBe(true);
+  });
+
+  it("resets to the initial or new values", () => {
+    const { result } = renderForm("onChange");
+
+    act(() => result.current.setValue("email", "jane"));
+    act(() => result.current.reset());
+    expect(result.current.values).toEqual(initialValues);
+    expect(result.current.validations).toEqual({});
+
+    const next = { email: "joe@example.com", age: "40", terms: true };
+    act(() => result.current.reset(next));
+    expect(result.current.values).toEqual(next);
+    expect(result.current.isDirty).toBe(false);
+  });
+});
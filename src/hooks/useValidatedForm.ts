@@ -0,0 +1,337 @@
+import { useCallback, useMemo, useReducer, useState } from "react";
+import {
+  Validation,
+  Failing,
+  StructInput,
+  StructOutput,
+  StructValidators,
+  isPassing,
+  struct
+} from "../unions/Validation";
+
+/**
+ * When field validations are shown and updated:
+ * - `onChange`: after every change of the field.
+ * - `onBlur`: when the field loses focus.
+ * - `onTouched`: from the first blur on, after every change.
+ * - `onSubmit`: from the first submit on.
+ *
+ * After the first submit, every field is re-validated on change in all modes.
+ */
+export type ValidationMode =
+  | "onChange"
+  | "onBlur"
+  | "onTouched"
+  | "onSubmit";
+
+/**
+ * Options for `useValidatedForm`.
+ */
+export interface UseValidatedFormOptions {
+  /** When field validations are shown and updated; defaults to `onTouched`. */
+  mode?: ValidationMode;
+}
+
+/**
+ * Props for binding a native input, select or textarea to a form field.
+ * Checkboxes are bound to their `checked` state.
+ */
+export interface InputBinding<T> {
+  name: string;
+  value: T;
+  onChange: (event: {
+    target: { value: string; type?: string; checked?: boolean };
+  }) => void;
+  onBlur: () => void;
+}
+
+/**
+ * Props for binding a custom component that reports values directly to a form field.
+ */
+export interface ValueBinding<T> {
+  name: string;
+  value: T;
+  onChange: (value: T) => void;
+  onBlur: () => void;
+}
+
+/**
+ * State and helpers returned by `useValidatedForm`.
+ * @typeParam S - The field validators.
+ */
+export interface ValidatedForm<S extends StructValidators> {
+  /** The current values. */
+  values: StructInput<S>;
+  /** Whether each field has lost focus at least once. */
+  touched: { [K in keyof S]: boolean };
+  /** Whether each field differs from its initial value. */
+  dirty: { [K in keyof S]: boolean };
+  /** True when any field differs from its initial value. */
+  isDirty: boolean;
+  /**
+   * The Validation of each field, once shown according to the mode; errors are located
+   * at the field key. `undefined` while the field has not been validated yet.
+   */
+  validations: {
+    [K in keyof S]?: Validation<StructOutput<S>[K]>;
+  };
+  /** The Validation of all current values, whatever the mode. */
+  validation: Validation<StructOutput<S>>;
+  /** The number of submit attempts. */
+  submitCount: number;
+  /** True while an async `onSubmit` is running. */
+  isSubmitting: boolean;
+  /** Changes the value of a field. */
+  setValue: <K extends keyof S>(
+    key: K,
+    value: StructInput<S>[K]
+  ) => void;
+  /** Marks a field as touched, as on blur. */
+  setTouched: (key: keyof S) => void;
+  /** Resets values, touched fields, validations and submit count, optionally to new initial values. */
+  reset: (values?: StructInput<S>) => void;
+  /**
+   * Returns a submit handler that validates every field and calls `onSubmit` with the
+   * typed value only when the form passes, or `onInvalid` with the `Failing` otherwise.
+   */
+  handleSubmit: (
+    onSubmit: (value: StructOutput<S>) => void | Promise<void>,
+    onInvalid?: (failing: Failing) => void
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>;
+  /** Returns props binding a native input to a field. */
+  bindInput: <K extends keyof S>(
+    key: K
+  ) => InputBinding<StructInput<S>[K]>;
+  /** Returns props binding a custom component to a field. */
+  bindValue: <K extends keyof S>(
+    key: K
+  ) => ValueBinding<StructInput<S>[K]>;
+}
+
+type Fields<S, T> = { [K in keyof S]: T };
+
+const mapFields = <S extends object, T>(
+  values: S,
+  fn: (key: keyof S) => T
+): Fields<S, T> =>
+  Object.fromEntries(
+    Object.keys(values).map((key) => [key, fn(key as keyof S)])
+  ) as Fields<S, T>;
+
+interface FormState<V> {
+  initial: V;
+  values: V;
+  touched: Partial<Record<keyof V, boolean>>;
+  // The value each field was last validated with
+  validated: Partial<V>;
+  submitCount: number;
+}
+
+type FormAction<V> =
+  | {
+      type: "change";
+      key: keyof V;
+      value: unknown;
+      mode: ValidationMode;
+    }
+  | { type: "blur"; key: keyof V; mode: ValidationMode }
+  | { type: "submit" }
+  | { type: "reset"; values?: V };
+
+const formReducer = <V>(
+  state: FormState<V>,
+  action: FormAction<V>
+): FormState<V> => {
+  switch (action.type) {
+    case "change": {
+      const { key, value, mode } = action;
+      const validate =
+        mode === "onChange" ||
+        state.submitCount > 0 ||
+        (mode === "onTouched" && state.touched[key]);
+      return {
+        ...state,
+        values: { ...state.values, [key]: value },
+        validated: validate
+          ? { ...state.validated, [key]: value }
+          : state.validated
+      };
+    }
+    case "blur": {
+      const { key, mode } = action;
+      const validate = mode === "onBlur" || mode === "onTouched";
+      return {
+        ...state,
+        touched: { ...state.touched, [key]: true },
+        validated: validate
+          ? { ...state.validated, [key]: state.values[key] }
+          : state.validated
+      };
+    }
+    case "submit":
+      return {
+        ...state,
+        validated: state.values,
+        submitCount: state.submitCount + 1
+      };
+    case "reset": {
+      const initial = action.values ?? state.initial;
+      return {
+        initial,
+        values: initial,
+        touched: {},
+        validated: {},
+        submitCount: 0
+      };
+    }
+  }
+};
+
+const initForm = <V>(values: V): FormState<V> => ({
+  initial: values,
+  values,
+  touched: {},
+  validated: {},
+  submitCount: 0
+});
+
+/**
+ * Manages a form validated with one validator per field, as in `Validation.struct`.
+ * Tracks values, touched and dirty fields, shows per-field Validations according to the
+ * mode, and only submits a typed `Passing` value.
+ * @typeParam S - The field validators.
+ * @param initialValues - The initial value of each field; read on the first render and on `reset`.
+ * @param validators - The validator of each field.
+ * @param options - The validation mode.
+ *
+ * @example
+ * const form = useValidatedForm(
+ *   { email: '', age: '' },
+ *   {
+ *     email: Validator.pipe(Validator.required<string>(), Validator.email()),
+ *     age: (input: string) => Validator.pipe(Validator.integer(), Validator.min(18))(Number(input))
+ *   },
+ *   { mode: 'onBlur' }
+ * );
+ * <form onSubmit={form.handleSubmit((value) => save(value))}>
+ *   <input {...form.bindInput('email')} />
+ *   {form.validations.email && <ValidationRender validation={form.validations.email} ... />}
+ * </form>
+ */
+export const useValidatedForm = <S extends StructValidators>(
+  initialValues: StructInput<S>,
+  validators: S,
+  options: UseValidatedFormOptions = {}
+): ValidatedForm<S> => {
+  type Values = StructInput<S>;
+  const { mode = "onTouched" } = options;
+  const [state, dispatch] = useReducer(
+    formReducer<Values>,
+    initialValues,
+    initForm
+  );
+  const [isSubmitting, setSubmitting] = useState(false);
+  const { initial, values, touched, validated, submitCount } = state;
+
+  const validation = useMemo(
+    () => struct(validators)(values),
+    [validators, values]
+  );
+
+  const validations = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.keys(validated).map((key) => [
+          key,
+          validators[key](validated[key]).prefix(key)
+        ])
+      ) as ValidatedForm<S>["validations"],
+    [validators, validated]
+  );
+
+  const setValue = useCallback(
+    <K extends keyof S>(key: K, value: Values[K]) =>
+      dispatch({ type: "change", key, value, mode }),
+    [mode]
+  );
+
+  const setTouched = useCallback(
+    (key: keyof S) => dispatch({ type: "blur", key, mode }),
+    [mode]
+  );
+
+  const reset = useCallback(
+    (next?: Values) => dispatch({ type: "reset", values: next }),
+    []
+  );
+
+  const handleSubmit = useCallback(
+    (
+      onSubmit: (value: StructOutput<S>) => void | Promise<void>,
+      onInvalid?: (failing: Failing) => void
+    ) =>
+      async (event?: { preventDefault?: () => void }) => {
+        event?.preventDefault?.();
+        dispatch({ type: "submit" });
+        if (!isPassing(validation)) {
+          onInvalid?.(validation);
+          return;
+        }
+        setSubmitting(true);
+        try {
+          await onSubmit(validation.value);
+        } finally {
+          setSubmitting(false);
+        }
+      },
+    [validation]
+  );
+
+  const bindValue = useCallback(
+    <K extends keyof S>(key: K): ValueBinding<Values[K]> => ({
+      name: String(key),
+      value: values[key],
+      onChange: (value) => setValue(key, value),
+      onBlur: () => setTouched(key)
+    }),
+    [values, setValue, setTouched]
+  );
+
+  const bindInput = useCallback(
+    <K extends keyof S>(key: K): InputBinding<Values[K]> => ({
+      ...bindValue(key),
+      onChange: ({ target }) =>
+        setValue(
+          key,
+          (target.type === "checkbox"
+            ? target.checked
+            : target.value) as Values[K]
+        )
+    }),
+    [bindValue, setValue]
+  );
+
+  const dirty = mapFields(
+    validators,
+    (key) => !Object.is(values[key], initial[key])
+  );
+
+  return {
+    values,
+    touched: mapFields(validators, (key) => touched[key] ?? false),
+    dirty,
+    isDirty: Object.values(dirty).some(Boolean),
+    validations,
+    validation,
+    submitCount,
+    isSubmitting,
+    setValue,
+    setTouched,
+    reset,
+    handleSubmit,
+    bindInput,
+    bindValue
+  };
+};
+
+export default useValidatedForm;
@@ -1,2 +1,6 @@
 export * from "./unions";
 export * from "./components";
+export * from "./redux";
+export * from "./cache";
+export * from "./validators";
+export * from "./hooks";
@@ -0,0 +1,95 @@
+import { createResourceSlice } from "./createResourceSlice";
+import { Data, Query, Empty, Failure } from "../unions/Resource";
+
+describe("createResourceSlice", () => {
+  interface User {
+    name: string;
+  }
+  const slice = createResourceSlice<User, { id: string }>({
+    name: "user",
+    initialParams: { id: "me" }
+  });
+  const { actions, reducer } = slice;
+  const user = { name: "Jane" };
+
+  test("starts from Empty with the initial params", () => {
+    const state = reducer(undefined, { type: "@@INIT" });
+    expect(state).toBeInstanceOf(Empty);
+    expect(state.params).toEqual({ id: "me" });
+    expect(slice.getInitialState()).toBe(state);
+  });
+
+  test("accepts a custom initial state", () => {
+    const querySlice = createResourceSlice<User, { id: string }>({
+      name: "user",
+      initialState: Query.of({ id: "me" })
+    });
+    expect(
+      querySlice.reducer(undefined, { type: "@@INIT" })
+    ).toBeInstanceOf(Query);
+  });
+
+  test("action creators are prefixed and matchable", () => {
+    const action = actions.success(user, { id: "123" });
+    expect(action).toEqual({
+      type: "user/success",
+      payload: { value: user, params: { id: "123" } }
+    });
+    expect(actions.success.type).toBe("user/success");
+    expect(actions.success.match(action)).toBe(true);
+    expect(actions.failure.match(action)).toBe(false);
+  });
+
+  test("request, success, failure and empty move between states", () => {
+    let state = reducer(undefined, actions.request({ id: "123" }));
+    expect(state).toBeInstanceOf(Query);
+    expect(state.params).toEqual({ id: "123" });
+
+    state = reducer(state, actions.success(user));
+    expect(state).toBeInstanceOf(Data);
+    expect(state.getDataOr({ name: "" })).toEqual(user);
+    expect(state.params).toEqual({ id: "123" });
+
+    state = reducer(state, actions.failure(["Not found"]));
+    expect(state).toBeInstanceOf(Failure);
+    if (state instanceof Failure) {
+      expect(state.messages).toEqual(["Not found"]);
+    }
+
+    state = reducer(state, actions.empty({ id: "456" }));
+    expect(state).toBeInstanceOf(Empty);
+    expect(state.params).toEqual({ id: "456" });
+  });
+
+  test("refresh keeps the stored Data as stale", () => {
+    const loaded = reducer(
+      undefined,
+      actions.success(user, { id: "1" })
+    );
+    const state = reducer(loaded, actions.refresh({ id: "2" }));
+    expect(state).toBeInstanceOf(Query);
+    expect(state.params).toEqual({ id: "2" });
+    expect(slice.selectors.selectData({ user: state })).toEqual(user);
+  });
+
+  test("reset restores the initial state", () => {
+    const loaded = reducer(undefined, actions.success(user));
+    expect(reducer(loaded, actions.reset())).toBe(
+      slice.getInitialState()
+    );
+  });
+
+  test("ignores actions of other slices", () => {
+    const loaded = reducer(undefined, actions.success(user));
+    expect(reducer(loaded, { type: "other/success" })).toBe(loaded);
+  });
+
+  test("selectors read the slice from the root state", () => {
+    const state = { user: Data.of(user, { id: "1" }) };
+    expect(slice.selectors.selectResource(state)).toBe(state.user);
+    expect(slice.selectors.selectData(state)).toEqual(user);
+    expect(
+      slice.selectors.selectData({ user: Failure.of(["error"]) })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  Resource,
+  Data,
+  Query,
+  Empty,
+  Failure
+} from "../unions/Resource";
+
+/**
+ * A Redux action carrying a payload, compatible with Redux Toolkit's `PayloadAction`.
+ * @typeParam P - The type of the payload.
+ * @typeParam K - The type of the action type string.
+ */
+export interface PayloadAction<P, K extends string = string> {
+  type: K;
+  payload: P;
+}
+
+/**
+ * An action creator with a `type` and a `match` type guard, compatible with
+ * Redux Toolkit's `createAction`, `builder.addCase` and `isAnyOf`.
+ * @typeParam A - The arguments of the action creator.
+ * @typeParam P - The type of the payload.
+ */
+export interface ResourceActionCreator<A extends unknown[], P> {
+  (...args: A): PayloadAction<P>;
+  /** The action type string. */
+  type: string;
+  /** Checks whether an action was created by this action creator. */
+  match: (action: { type: string }) => action is PayloadAction<P>;
+}
+
+/**
+ * Options for `createResourceSlice`.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @typeParam Name - The slice name, used as action type prefix and state key.
+ */
+export interface ResourceSliceOptions<T, Q, E, Name extends string> {
+  /** The slice name, used as action type prefix and state key. */
+  name: Name;
+  /** Parameters of the initial state and default parameters of the actions. */
+  initialParams?: Q;
+  /** The initial Resource; defaults to `Empty` with `initialParams`. */
+  initialState?: Resource<T, Q, E>;
+}
+
+/**
+ * A Redux slice storing a single Resource.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @typeParam Name - The slice name, used as action type prefix and state key.
+ */
+export interface ResourceSlice<T, Q, E, Name extends string> {
+  /** The slice name. */
+  name: Name;
+  /** Action creators; omitted `params` default to the params currently stored. */
+  actions: {
+    /** Starts a request, moving to a plain `Query`. */
+    request: ResourceActionCreator<[params?: Q], { params?: Q }>;
+    /** Starts a request that keeps the current `Data` as stale, through `refresh`. */
+    refresh: ResourceActionCreator<[params?: Q], { params?: Q }>;
+    /** Stores a successful result as `Data`. */
+    success: ResourceActionCreator<
+      [value: T, params?: Q],
+      { value: T; params?: Q }
+    >;
+    /** Stores a failed result as `Failure`. */
+    failure: ResourceActionCreator<
+      [messages: E[], params?: Q],
+      { messages: E[]; params?: Q }
+    >;
+    /** Stores an empty result as `Empty`. */
+    empty: ResourceActionCreator<[params?: Q], { params?: Q }>;
+    /** Restores the initial state. */
+    reset: ResourceActionCreator<[], undefined>;
+  };
+  /** Reducer storing the Resource; ignores actions of other slices. */
+  reducer: (
+    state: Resource<T, Q, E> | undefined,
+    action: { type: string }
+  ) => Resource<T, Q, E>;
+  /** Selectors reading the slice from the root state, under `name`. */
+  selectors: {
+    /** Selects the stored Resource. */
+    selectResource: (
+      state: Record<Name, Resource<T, Q, E>>
+    ) => Resource<T, Q, E>;
+    /** Selects the `Data` value (or the stale value while refreshing), if any. */
+    selectData: (
+      state: Record<Name, Resource<T, Q, E>>
+    ) => T | undefined;
+  };
+  /** Returns the initial Resource. */
+  getInitialState: () => Resource<T, Q, E>;
+}
+
+/**
+ * Builds an action creator whose arguments are turned into a payload by `prepare`.
+ */
+const createAction = <A extends unknown[], P>(
+  type: string,
+  prepare: (...args: A) => P
+): ResourceActionCreator<A, P> =>
+  Object.assign(
+    (...args: A) => ({ type, payload: prepare(...args) }),
+    {
+      type,
+      match: (action: { type: string }): action is PayloadAction<P> =>
+        action.type === type
+    }
+  );
+
+/**
+ * Creates a Redux slice storing a Resource, with typed action creators, a reducer and selectors.
+ * The reducer is built on the Resource transitions (`update`, `refresh`) and constructors, so the stored
+ * state is always a Resource instance. It has no dependency on Redux Toolkit but its
+ * action creators and reducer plug into `configureStore`, `combineReducers` and `builder.addCase`.
+ * Pair it with `Resource.isSerializable` in the serializable middleware.
+ *
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @typeParam Name - The slice name, used as action type prefix and state key.
+ * @param options - The slice name, initial params and optional initial state.
+ * @returns The slice with `actions`, `reducer`, `selectors` and `getInitialState`.
+ *
+ * @example
+ * const userSlice = createResourceSlice<User, { id: string }>({
+ *   name: 'user',
+ *   initialParams: { id: 'me' }
+ * });
+ * const store = configureStore({ reducer: { user: userSlice.reducer } });
+ * store.dispatch(userSlice.actions.request({ id: '123' })); // Query<{ id: '123' }>
+ * store.dispatch(userSlice.actions.success(user)); // Data<User, { id: '123' }>
+ * userSlice.selectors.selectData(store.getState()); // User
+ */
+export const createResourceSlice = <
+  T,
+  Q = undefined,
+  E = string,
+  Name extends string = string
+>(
+  options: ResourceSliceOptions<T, Q, E, Name>
+): ResourceSlice<T, Q, E, Name> => {
+  const { name, initialParams } = options;
+  const initialState: Resource<T, Q, E> =
+    options.initialState ?? Empty.of(initialParams);
+  const getInitialState = () => initialState;
+
+  const actions = {
+    request: createAction(`${name}/request`, (params?: Q) => ({
+      params
+    })),
+    refresh: createAction(`${name}/refresh`, (params?: Q) => ({
+      params
+    })),
+    success: createAction(
+      `${name}/success`,
+      (value: T, params?: Q) => ({ value, params })
+    ),
+    failure: createAction(
+      `${name}/failure`,
+      (messages: E[], params?: Q) => ({ messages, params })
+    ),
+    empty: createAction(`${name}/empty`, (params?: Q) => ({
+      params
+    })),
+    reset: createAction(`${name}/reset`, () => undefined)
+  };
+
+  const reducer = (
+    state: Resource<T, Q, E> = initialState,
+    action: { type: string }
+  ): Resource<T, Q, E> => {
+    if (actions.request.match(action)) {
+      // Params stay optional, as in Query.of
+      return state.update<Q>(
+        (action.payload.params ?? state.params) as Q
+      );
+    }
+    if (actions.refresh.match(action)) {
+      return state.refresh(action.payload.params);
+    }
+    if (actions.success.match(action)) {
+      return Data.of(
+        action.payload.value,
+        action.payload.params ?? state.params
+      );
+    }
+    if (actions.failure.match(action)) {
+      return Failure.of(
+        action.payload.messages,
+        action.payload.params ?? state.params
+      );
+    }
+    if (actions.empty.match(action)) {
+      return Empty.of(action.payload.params ?? state.params);
+    }
+    if (actions.reset.match(action)) {
+      return initialState;
+    }
+    return state;
+  };
+
+  const selectResource = (state: Record<Name, Resource<T, Q, E>>) =>
+    state[name];
+  const selectData = (
+    state: Record<Name, Resource<T, Q, E>>
+  ): T | undefined =>
+    selectResource(state).matchWith<T | undefined>({
+      Data: ({ value }: Data<T, Q>) => value,
+      Query: ({ stale }: Query<Q, T>) => stale?.value,
+      Empty: () => undefined,
+      Failure: () => undefined
+    });
+
+  return {
+    name,
+    actions,
+    reducer,
+    selectors: { selectResource, selectData },
+    getInitialState
+  };
+};
+
+export default createResourceSlice;
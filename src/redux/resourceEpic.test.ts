@@ -0,0 +1,254 @@
+import { TestScheduler } from "rxjs/testing";
+import { Observable, Subject, lastValueFrom, toArray } from "rxjs";
+import { resourceEpic, ResourceEpicAction } from "./resourceEpic";
+import { Resource, toJSON } from "../unions/Resource";
+
+interface FetchAction {
+  type: "user/fetch";
+  payload: { params: { id: string } };
+}
+
+const fetchUser = (id: string): FetchAction => ({
+  type: "user/fetch",
+  payload: { params: { id } }
+});
+const isFetch = (action: ResourceEpicAction): action is FetchAction =>
+  action.type === "user/fetch";
+const isCancel = (action: ResourceEpicAction) =>
+  action.type === "user/cancel";
+const toAction = (resource: Resource<string, { id: string }>) => ({
+  type: `user/${resource.type}`,
+  payload: toJSON(resource)
+});
+
+const query = (id: string) => toAction(Resource.Query({ id }));
+const data = (value: string, id: string) =>
+  toAction(Resource.Data(value, { id }));
+const failure = (message: string, id: string) =>
+  toAction(Resource.Failure([message], { id }));
+
+describe("resourceEpic", () => {
+  let scheduler: TestScheduler;
+
+  beforeEach(() => {
+    scheduler = new TestScheduler((actual, expected) =>
+      expect(actual).toEqual(expected)
+    );
+  });
+
+  test("emits Query then Data for each request", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-a", {
+        a: fetchUser("1")
+      });
+      const epic = resourceEpic({
+        match: isFetch,
+        fetcher: ({ id }) => cold("--r|", { r: `user ${id}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-q-d", {
+        q: query("1"),
+        d: data("user 1", "1")
+      });
+    });
+  });
+
+  test("emits Failure when the fetcher errors", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-a", {
+        a: fetchUser("1")
+      });
+      const epic = resourceEpic({
+        match: isFetch,
+        fetcher: () =>
+          cold<string>("--#", {}, new Error("Not found")),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-q-f", {
+        q: query("1"),
+        f: failure("Not found", "1")
+      });
+    });
+  });
+
+  test("switch cancels the in-flight request for the same key", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-a-b", {
+        a: fetchUser("1"),
+        b: fetchUser("1")
+      });
+      let calls = 0;
+      const epic = resourceEpic({
+        match: isFetch,
+        fetcher: () => cold("---r|", { r: `call ${++calls}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-q-q--d", {
+        q: query("1"),
+        d: data("call 2", "1")
+      });
+    });
+  });
+
+  test("switch keeps requests for different keys", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-ab", {
+        a: fetchUser("1"),
+        b: fetchUser("2")
+      });
+      const epic = resourceEpic({
+        match: isFetch,
+        fetcher: ({ id }) => cold("--r|", { r: `user ${id}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-pqcd", {
+        p: query("1"),
+        q: query("2"),
+        c: data("user 1", "1"),
+        d: data("user 2", "2")
+      });
+    });
+  });
+
+  test("merge runs concurrent requests for the same key", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-ab", {
+        a: fetchUser("1"),
+        b: fetchUser("1")
+      });
+      let calls = 0;
+      const epic = resourceEpic({
+        match: isFetch,
+        strategy: "merge",
+        fetcher: () => cold("--r|", { r: `call ${++calls}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-qqcd", {
+        q: query("1"),
+        c: data("call 1", "1"),
+        d: data("call 2", "1")
+      });
+    });
+  });
+
+  test("exhaust ignores requests while one is in flight", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-ab---c", {
+        a: fetchUser("1"),
+        b: fetchUser("1"),
+        c: fetchUser("1")
+      });
+      let calls = 0;
+      const epic = resourceEpic({
+        match: isFetch,
+        strategy: "exhaust",
+        fetcher: () => cold("--r|", { r: `call ${++calls}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-q-d--q-e", {
+        q: query("1"),
+        d: data("call 1", "1"),
+        e: data("call 2", "1")
+      });
+    });
+  });
+
+  test("a cancel action stops matching in-flight requests", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-abc", {
+        a: fetchUser("1"),
+        b: fetchUser("2"),
+        c: { type: "user/cancel", payload: { params: { id: "1" } } }
+      });
+      const epic = resourceEpic({
+        match: isFetch,
+        cancel: isCancel,
+        fetcher: ({ id }) => cold("---r|", { r: `user ${id}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-pq--d", {
+        p: query("1"),
+        q: query("2"),
+        d: data("user 2", "2")
+      });
+    });
+  });
+
+  test("a cancel action without params stops every request", () => {
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-abc", {
+        a: fetchUser("1"),
+        b: fetchUser("2"),
+        c: { type: "user/cancel" }
+      });
+      const epic = resourceEpic({
+        match: isFetch,
+        cancel: isCancel,
+        fetcher: ({ id }) => cold("---r|", { r: `user ${id}` }),
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-pq", {
+        p: query("1"),
+        q: query("2")
+      });
+    });
+  });
+
+  test("aborts the fetcher signal when a request is superseded", () => {
+    const signals: AbortSignal[] = [];
+    scheduler.run(({ hot, cold, expectObservable }) => {
+      const action$ = hot<ResourceEpicAction>("-ab", {
+        a: fetchUser("1"),
+        b: fetchUser("1")
+      });
+      const epic = resourceEpic({
+        match: isFetch,
+        fetcher: (_params, signal): Observable<string> => {
+          signals.push(signal);
+          return cold("----r|", { r: "user" });
+        },
+        toAction
+      });
+      expectObservable(epic(action$)).toBe("-qq---d", {
+        q: query("1"),
+        d: data("user", "1")
+      });
+    });
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  test("supports promise fetchers and typed errors", async () => {
+    const epic = resourceEpic({
+      match: isFetch,
+      fetcher: ({ id }: { id: string }) =>
+        id === "1"
+          ? Promise.resolve(`user ${id}`)
+          : Promise.reject(new Error("Not found")),
+      onError: (cause) => ({ status: 404, cause }),
+      toAction: (resource, action) => ({
+        type: action.type,
+        resource
+      })
+    });
+    const action$ = new Subject<ResourceEpicAction>();
+    const actions = lastValueFrom(epic(action$).pipe(toArray()));
+    action$.next(fetchUser("1"));
+    action$.next(fetchUser("2"));
+    await new Promise((resolve) => setTimeout(resolve));
+    action$.complete();
+    const resources = (await actions).map(({ resource }) => resource);
+    expect(resources).toHaveLength(4);
+    const [done, failed] = resources.filter(
+      (resource) => !Resource.isQuery(resource)
+    );
+    expect(done.getDataOr("")).toBe("user 1");
+    expect(
+      failed.matchWith({
+        Data: () => 0,
+        Query: () => 0,
+        Empty: () => 0,
+        Failure: ({ messages }) => messages[0].status
+      })
+    ).toBe(404);
+  });
+});
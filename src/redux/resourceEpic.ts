@@ -0,0 +1,201 @@
+import {
+  Observable,
+  ObservableInput,
+  EMPTY,
+  NEVER,
+  catchError,
+  defer,
+  filter,
+  finalize,
+  from,
+  map,
+  merge,
+  mergeMap,
+  of,
+  startWith,
+  takeUntil
+} from "rxjs";
+import {
+  Resource,
+  Data,
+  Query,
+  fromError,
+  paramsKey
+} from "../unions/Resource";
+
+/**
+ * How a new request is handled while another one for the same key is in flight.
+ * - `switch`: cancel the in-flight request and start the new one (default).
+ * - `merge`: run both.
+ * - `exhaust`: ignore the new request.
+ */
+export type ResourceEpicStrategy = "switch" | "merge" | "exhaust";
+
+/**
+ * Minimal action shape handled by `resourceEpic`.
+ */
+export interface ResourceEpicAction {
+  type: string;
+  payload?: unknown;
+}
+
+/**
+ * An epic as accepted by redux-observable's `combineEpics` and `epicMiddleware.run`.
+ * @typeParam A - The type of the actions emitted.
+ */
+export type ResourceEpic<A extends ResourceEpicAction> = (
+  action$: Observable<ResourceEpicAction>
+) => Observable<A>;
+
+/**
+ * Options for `resourceEpic`.
+ * @typeParam I - The type of the triggering actions.
+ * @typeParam T - The type of the fetched data.
+ * @typeParam Q - The type of the request params.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @typeParam A - The type of the actions emitted.
+ */
+export interface ResourceEpicOptions<
+  I extends ResourceEpicAction,
+  T,
+  Q,
+  E,
+  A extends ResourceEpicAction
+> {
+  /** Selects the actions that start a request, e.g. an action creator's `match`. */
+  match: (action: ResourceEpicAction) => action is I;
+  /** Fetches the data; the signal aborts when the request is cancelled or superseded. */
+  fetcher: (params: Q, signal: AbortSignal) => ObservableInput<T>;
+  /** Converts each Resource (`Query`, then `Data` or `Failure`) into an action. */
+  toAction: (resource: Resource<T, Q, E>, action: I) => A;
+  /** Reads the params of an action; defaults to `action.payload.params`. */
+  getParams?: (action: ResourceEpicAction) => Q;
+  /** Keys requests for cancellation and strategies; defaults to `Resource.paramsKey`. */
+  getKey?: (params: Q) => string;
+  /**
+   * Selects the actions that cancel in-flight requests. A cancel action whose params
+   * are undefined cancels every request, otherwise only the one with the same key.
+   */
+  cancel?: (action: ResourceEpicAction) => boolean;
+  /** How concurrent requests for the same key are handled; defaults to `switch`. */
+  strategy?: ResourceEpicStrategy;
+  /** Converts a fetch error into a `Failure` error, as in `overPromise`. */
+  onError?: (error: unknown) => E;
+}
+
+const defaultGetParams = <Q>(action: ResourceEpicAction): Q =>
+  (action.payload as { params?: Q } | undefined)?.params as Q;
+
+/**
+ * Creates a redux-observable epic that runs a fetcher for every matching action and emits
+ * the resulting Resource states as actions: a `Query` first, then `Data` for every value
+ * or a `Failure` if the fetcher fails (errors are captured like `overPromise` does).
+ * Requests are keyed by params: with the default `switch` strategy a newer request for the
+ * same key cancels the in-flight one, and a `cancel` action stops requests explicitly.
+ * Cancelled requests emit nothing further and abort the fetcher's signal.
+ *
+ * @typeParam I - The type of the triggering actions.
+ * @typeParam T - The type of the fetched data.
+ * @typeParam Q - The type of the request params.
+ * @typeParam E - The type of the errors in `Failure` state.
+ * @typeParam A - The type of the actions emitted.
+ * @param options - The matcher, fetcher, action mapping and cancellation options.
+ * @returns An epic to register with redux-observable.
+ *
+ * @example
+ * import { resourceEpic } from '@galileopy/phantom-stories/epic';
+ *
+ * const fetchUser = createAction<{ params: { id: string } }>('user/fetch');
+ * const cancelUser = createAction('user/cancel');
+ * const userEpic = resourceEpic({
+ *   match: fetchUser.match,
+ *   cancel: cancelUser.match,
+ *   fetcher: ({ id }, signal) => fetch(`/users/${id}`, { signal }).then(r => r.json()),
+ *   toAction: resource =>
+ *     resource.matchWith({
+ *       Query: ({ params }) => userSlice.actions.request(params),
+ *       Data: ({ value, params }) => userSlice.actions.success(value, params),
+ *       Empty: ({ params }) => userSlice.actions.empty(params),
+ *       Failure: ({ messages, params }) => userSlice.actions.failure(messages, params)
+ *     })
+ * });
+ */
+export const resourceEpic = <
+  I extends ResourceEpicAction,
+  T,
+  Q,
+  A extends ResourceEpicAction,
+  E = string
+>(
+  options: ResourceEpicOptions<I, T, Q, E, A>
+): ResourceEpic<A> => {
+  const {
+    match,
+    fetcher,
+    toAction,
+    getParams = defaultGetParams,
+    getKey = paramsKey,
+    cancel,
+    strategy = "switch",
+    onError
+  } = options;
+
+  return (action$) => {
+    // Keys of the requests in flight for this epic instance, used by `exhaust`
+    const inFlight = new Set<string>();
+
+    const run = (params: Q): Observable<Resource<T, Q, E>> =>
+      defer(() => {
+        const controller = new AbortController();
+        return from(fetcher(params, controller.signal)).pipe(
+          map((value): Resource<T, Q, E> => Data.of(value, params)),
+          // Errors become a Failure exactly as a rejected promise in `overPromise`
+          catchError((error: unknown) =>
+            of(fromError(error, params, onError))
+          ),
+          finalize(() => controller.abort())
+        );
+      });
+
+    return action$.pipe(
+      filter(match),
+      mergeMap((action) => {
+        const params = getParams(action);
+        const key = getKey(params);
+        if (strategy === "exhaust") {
+          if (inFlight.has(key)) {
+            return EMPTY;
+          }
+          inFlight.add(key);
+        }
+        const superseded$ =
+          strategy === "switch"
+            ? action$.pipe(
+                filter(match),
+                filter((next) => getKey(getParams(next)) === key)
+              )
+            : NEVER;
+        const cancelled$ = cancel
+          ? action$.pipe(
+              filter(cancel),
+              filter((next) => {
+                const cancelParams = getParams(next);
+                return (
+                  cancelParams === undefined ||
+                  getKey(cancelParams) === key
+                );
+              })
+            )
+          : NEVER;
+        return run(params).pipe(
+          startWith(Query.of<Q, T>(params)),
+          takeUntil(merge(superseded$, cancelled$)),
+          finalize(() => inFlight.delete(key)),
+          map((resource) => toAction(resource, action))
+        );
+      })
+    );
+  };
+};
+
+export default resourceEpic;
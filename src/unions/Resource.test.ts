@@ -1,4 +1,14 @@
-import { Resource, Data, Query, Empty, Failure } from "./Resource";
+import {
+  Resource,
+  Data,
+  Query,
+  Empty,
+  Failure,
+  ResourceJSON,
+  ResourceRunError
+} from "./Resource";
+import { Validation, ValidationError } from "./Validation";
+import { Validator } from "../validators/Validator";
 
 // Utility functions
 const id = <T>(x: T): T => x;
@@ -129,6 +139,20 @@ describe("Resource", () => {
       const right = w.ap(u).ap(v);
       expect(resourceEquals(left, right)).toBe(true);
     });
+
+    test("ap on a Data without a function fails with a message", () => {
+      const value = Data.of<number, { id: string }>(42, params);
+      const result: Resource<number, { id: string }, string> =
+        Data.of<number, { id: string }>(1, params).ap(value);
+      expect(result).toEqual(
+        Failure.of(
+          [
+            "Resource.ap called on Data variant that does not contain a function"
+          ],
+          params
+        )
+      );
+    });
   });
 
   describe("Monad Laws", () => {
@@ -459,3 +483,820 @@ describe("Resource simplified constructors", () => {
     expect(resource.params).toEqual({ id: "123" });
   });
 });
+
+describe("Typed Failure errors", () => {
+  interface ApiError {
+    status: number;
+    code: string;
+    retryable: boolean;
+    cause?: unknown;
+  }
+  const params = { id: "123" };
+  const apiError: ApiError = {
+    status: 503,
+    code: "UNAVAILABLE",
+    retryable: true
+  };
+  const toApiError = (cause: unknown): ApiError => ({
+    status: 500,
+    code: "INTERNAL",
+    retryable: false,
+    cause
+  });
+
+  test("Failure holds structured errors", () => {
+    const failure = Failure.of<{ id: string }, ApiError>(
+      [apiError],
+      params
+    );
+    const resource: Resource<number, { id: string }, ApiError> =
+      failure;
+    const status = resource.matchWith({
+      Data: () => 200,
+      Query: () => 0,
+      Empty: () => 204,
+      Failure: ({ messages }) => messages[0].status
+    });
+    expect(status).toBe(503);
+  });
+
+  test("map, chain and ap carry the typed error through", () => {
+    const failure: Resource<number, { id: string }, ApiError> =
+      Failure.of([apiError], params);
+    expect(failure.map((x: number) => x + 1)).toBe(failure);
+    expect(
+      failure.chain((d: Data<number, { id: string }>) =>
+        Data.of(d.value, d.params)
+      )
+    ).toBe(failure);
+    const applied = Data.of((x: number) => x + 1, params).ap(failure);
+    expect(applied).toBeInstanceOf(Failure);
+    if (applied instanceof Failure) {
+      expect(applied.messages).toEqual([apiError]);
+    }
+  });
+
+  test("mapSafe keeps the thrown error through onError", () => {
+    const cause = new Error("Parse error");
+    const result = Data.of("{", params).mapSafe(() => {
+      throw cause;
+    }, toApiError);
+    expect(result).toBeInstanceOf(Failure);
+    if (result instanceof Failure) {
+      expect(result.messages[0].cause).toBe(cause);
+      expect(result.params).toEqual(params);
+    }
+  });
+
+  test("overPromise keeps the rejection through onError", async () => {
+    const cause = new Error("Network error");
+    const result = await Resource.overPromise(
+      params,
+      Promise.reject(cause),
+      toApiError
+    );
+    expect(result).toBeInstanceOf(Failure);
+    if (result instanceof Failure) {
+      expect(result.messages[0].cause).toBe(cause);
+      expect(result.messages[0].code).toBe("INTERNAL");
+    }
+  });
+
+  test("defaults to string messages without onError", async () => {
+    const result = await Resource.overPromise(
+      params,
+      Promise.reject("plain rejection")
+    );
+    expect(result).toBeInstanceOf(Failure);
+    if (result instanceof Failure) {
+      expect(result.messages).toEqual(["plain rejection"]);
+    }
+  });
+});
+
+describe("Stale-while-revalidate", () => {
+  const params = { page: 1 };
+  const data = Data.of([1, 2, 3], params);
+
+  test("refresh on Data keeps the previous Data as stale", () => {
+    const refreshing = data.refresh({ page: 2 });
+    expect(refreshing).toBeInstanceOf(Query);
+    expect(refreshing.params).toEqual({ page: 2 });
+    expect(refreshing.stale).toBe(data);
+    expect(Resource.isRefreshing(refreshing)).toBe(true);
+  });
+
+  test("refresh defaults to the current params", () => {
+    expect(data.refresh().params).toEqual(params);
+    expect(Query.of(params).refresh().params).toEqual(params);
+  });
+
+  test("update still returns a plain Query", () => {
+    const query = data.update({ page: 2 });
+    expect(query.stale).toBeUndefined();
+    expect(Resource.isRefreshing(query)).toBe(false);
+  });
+
+  test("refresh on Empty and Failure returns a plain Query", () => {
+    const fromEmpty = Empty.of(params).refresh();
+    const fromFailure = Failure.of(["error"], params).refresh();
+    expect(fromEmpty.stale).toBeUndefined();
+    expect(fromFailure.stale).toBeUndefined();
+    expect(fromFailure.params).toEqual(params);
+  });
+
+  test("refreshing a refreshing Query keeps the stale Data", () => {
+    const refreshing = data.refresh({ page: 2 }).refresh({ page: 3 });
+    expect(refreshing.params).toEqual({ page: 3 });
+    expect(refreshing.stale).toBe(data);
+  });
+
+  test("getDataOr returns the stale value while refreshing", () => {
+    expect(data.refresh().getDataOr([])).toEqual([1, 2, 3]);
+    expect(Query.of(params).getDataOr([])).toEqual([]);
+  });
+
+  test("map and mapSafe transform the stale value", () => {
+    const refreshing = data.refresh({ page: 2 });
+    const mapped = refreshing.map((xs: number[]) => xs.length);
+    expect(mapped.params).toEqual({ page: 2 });
+    expect(mapped.getDataOr(0)).toBe(3);
+    const failed = refreshing.mapSafe(() => {
+      throw new Error("bad");
+    });
+    expect(failed).toBeInstanceOf(Query);
+    expect(failed.stale).toBeUndefined();
+  });
+
+  test("chain keeps the stale value only when it stays Data", () => {
+    const refreshing = data.refresh({ page: 2 });
+    const chained = refreshing.chain(
+      (d: Data<number[], { page: number }>) =>
+        Data.of(d.value.length, d.params)
+    );
+    expect(chained).toBeInstanceOf(Query);
+    expect(chained.getDataOr(0)).toBe(3);
+    const emptied = refreshing.chain(() => Empty.of(params));
+    expect(Resource.isRefreshing(emptied)).toBe(false);
+  });
+});
+
+describe("Combining Resources", () => {
+  const user = Data.of({ name: "Jane" }, { id: "1" });
+  const count = Data.of(3, { id: "2" });
+
+  test("sequence infers a tuple of values", () => {
+    const result = Resource.sequence([user, count]);
+    expect(result).toBeInstanceOf(Data);
+    const [u, c]: [{ name: string }, number] = result.getDataOr([
+      { name: "" },
+      0
+    ]);
+    expect(u.name).toBe("Jane");
+    expect(c).toBe(3);
+  });
+
+  test("combine infers a record of values", () => {
+    const result = Resource.combine({ user, count }, { page: 1 });
+    const value: { user: { name: string }; count: number } =
+      result.getDataOr({ user: { name: "" }, count: 0 });
+    expect(value).toEqual({ user: { name: "Jane" }, count: 3 });
+    expect(result.params).toEqual({ page: 1 });
+  });
+
+  test("traverse maps items to Resources and sequences them", () => {
+    const result = Resource.traverse([1, 2, 3], (x: number) =>
+      Data.of(x * 2)
+    );
+    expect(result.getDataOr([])).toEqual([2, 4, 6]);
+    const failed = Resource.traverse([1, 2, 3], (x: number) =>
+      x % 2 ? Failure.of<undefined>([`odd ${x}`]) : Data.of(x)
+    );
+    expect(failed).toBeInstanceOf(Failure);
+    if (failed instanceof Failure) {
+      expect(failed.messages).toEqual(["odd 1", "odd 3"]);
+    }
+  });
+
+  test("Failure takes precedence and aggregates messages in order", () => {
+    const result = Resource.sequence([
+      Failure.of(["first"]),
+      Query.of(),
+      Empty.of(),
+      Failure.of(["second", "third"]),
+      user
+    ]);
+    expect(result).toBeInstanceOf(Failure);
+    if (result instanceof Failure) {
+      expect(result.messages).toEqual(["first", "second", "third"]);
+    }
+  });
+
+  test("Query takes precedence over Empty and Data", () => {
+    expect(
+      Resource.combine({
+        user,
+        loading: Query.of(),
+        none: Empty.of()
+      })
+    ).toBeInstanceOf(Query);
+  });
+
+  test("Empty takes precedence over Data", () => {
+    expect(Resource.sequence([user, Empty.of()])).toBeInstanceOf(
+      Empty
+    );
+  });
+
+  test("a combined Query keeps stale values when all are available", () => {
+    const result = Resource.combine({ user: user.refresh(), count });
+    expect(Resource.isRefreshing(result)).toBe(true);
+    expect(
+      result.getDataOr({ user: { name: "" }, count: 0 })
+    ).toEqual({
+      user: { name: "Jane" },
+      count: 3
+    });
+    const partial = Resource.sequence([Query.of(), count]);
+    expect(Resource.isRefreshing(partial)).toBe(false);
+  });
+
+  test("typed errors are carried through", () => {
+    interface ApiError {
+      status: number;
+    }
+    const failure = Failure.of<undefined, ApiError>([
+      { status: 404 }
+    ]);
+    const result = Resource.sequence([user, failure]);
+    const status = result.matchWith({
+      Data: () => 200,
+      Query: () => 0,
+      Empty: () => 204,
+      Failure: ({ messages }) => messages[0].status
+    });
+    expect(status).toBe(404);
+  });
+
+  test("empty inputs combine into Data", () => {
+    const sequenced = Resource.sequence([]);
+    const combined = Resource.combine({});
+    expect(sequenced).toBeInstanceOf(Data);
+    expect(combined).toBeInstanceOf(Data);
+    expect(sequenced.getDataOr([])).toEqual([]);
+    expect(combined.getDataOr({})).toEqual({});
+  });
+});
+
+describe("JSON serialization", () => {
+  const params = { id: "123" };
+  const variants: Resource<number, { id: string }>[] = [
+    Data.of(42, params),
+    Query.of(params),
+    Data.of(42, params).refresh({ id: "456" }),
+    Empty.of(params),
+    Failure.of(["error"], params)
+  ];
+
+  test("toJSON produces plain objects with the type discriminator", () => {
+    expect(Resource.toJSON(Data.of(42, params))).toEqual({
+      "@@phantom-stories": "Resource",
+      type: "Data",
+      value: 42,
+      params
+    });
+    expect(Resource.toJSON(Failure.of(["error"], params))).toEqual({
+      "@@phantom-stories": "Resource",
+      type: "Failure",
+      messages: ["error"],
+      params
+    });
+    const json = Resource.toJSON(Data.of(1, params).refresh());
+    expect(json).toEqual({
+      "@@phantom-stories": "Resource",
+      type: "Query",
+      params,
+      stale: { type: "Data", value: 1, params }
+    });
+    expect(Object.getPrototypeOf(json)).toBe(Object.prototype);
+  });
+
+  test("fromJSON round-trips every variant", () => {
+    variants.forEach((resource) => {
+      const revived = Resource.fromJSON(
+        JSON.parse(JSON.stringify(Resource.toJSON(resource)))
+      );
+      expect(revived).toBeInstanceOf(resource.constructor);
+      expect(revived).toEqual(resource);
+    });
+  });
+
+  test("fromJSON rejects values that are not Resources", () => {
+    expect(() =>
+      Resource.fromJSON({ type: "Nope" } as unknown as ResourceJSON<
+        number,
+        undefined
+      >)
+    ).toThrow(TypeError);
+  });
+
+  test("fromJSON accepts untagged Resources", () => {
+    const revived = Resource.fromJSON(
+      JSON.parse(
+        '{"type":"Data","value":42,"params":{"id":"123"}}'
+      ) as ResourceJSON<number, { id: string }>
+    );
+    expect(revived).toEqual(Data.of(42, params));
+  });
+
+  test("reviver rehydrates nested Resources within JSON.parse", () => {
+    const state = {
+      user: variants[2],
+      list: [variants[0], variants[4]]
+    };
+    const revived = JSON.parse(
+      JSON.stringify(state),
+      Resource.reviver
+    );
+    expect(revived.user).toBeInstanceOf(Query);
+    expect(revived.user.stale).toBeInstanceOf(Data);
+    expect(revived.list[0].map((x: number) => x + 1).value).toBe(43);
+    expect(revived.list[1]).toBeInstanceOf(Failure);
+  });
+
+  test("undefined values survive the JSON round-trip", () => {
+    const data = Data.of(undefined, params);
+    const refreshing = data.refresh();
+    const text = JSON.stringify({ data, refreshing });
+    const revived = JSON.parse(text, Resource.reviver);
+    expect(revived.data).toEqual(data);
+    expect(revived.refreshing).toEqual(refreshing);
+    expect(
+      Resource.fromJSON(JSON.parse(JSON.stringify(data)))
+    ).toEqual(data);
+  });
+
+  test("reviver leaves untagged look-alike objects alone", () => {
+    const text = JSON.stringify({
+      lastAction: { type: "Empty" },
+      item: { type: "Data", value: 1 },
+      error: { type: "Failure", messages: [] }
+    });
+    expect(JSON.parse(text, Resource.reviver)).toEqual(
+      JSON.parse(text)
+    );
+    expect(
+      JSON.parse(text, Resource.reviver).lastAction
+    ).not.toBeInstanceOf(Empty);
+  });
+
+  test("isSerializable accepts plain values and Resource instances", () => {
+    expect(Resource.isSerializable({ a: [1, "b", null] })).toBe(true);
+    variants.forEach((resource) =>
+      expect(Resource.isSerializable(resource)).toBe(true)
+    );
+    expect(Resource.isSerializable(new Map())).toBe(false);
+    expect(Resource.isSerializable(() => 1)).toBe(false);
+  });
+});
+
+describe("Resource helpers", () => {
+  test("paramsKey is stable across key order", () => {
+    expect(Resource.paramsKey({ a: 1, b: { d: 2, c: [3] } })).toBe(
+      Resource.paramsKey({ b: { c: [3], d: 2 }, a: 1 })
+    );
+    expect(Resource.paramsKey({ a: 1 })).not.toBe(
+      Resource.paramsKey({ a: 2 })
+    );
+    expect(Resource.paramsKey(undefined)).toBe("undefined");
+  });
+
+  test("fromError builds a Failure like overPromise", () => {
+    const failure = Resource.fromError(new Error("boom"), {
+      id: "1"
+    });
+    expect(failure.messages).toEqual(["boom"]);
+    expect(failure.params).toEqual({ id: "1" });
+    const typed = Resource.fromError("boom", undefined, (cause) => ({
+      cause
+    }));
+    expect(typed.messages).toEqual([{ cause: "boom" }]);
+  });
+});
+
+describe("Freshness metadata", () => {
+  const params = { id: "123" };
+  const meta = {
+    fetchedAt: 1000,
+    expiresAt: 2000,
+    requestId: "req-1",
+    source: "network"
+  };
+  const data = Data.of(42, params, meta);
+
+  test("constructors and withMeta attach metadata", () => {
+    expect(data.meta).toEqual(meta);
+    expect(Query.of(params, undefined, meta).meta).toEqual(meta);
+    expect(Empty.of(params, meta).meta).toEqual(meta);
+    expect(Failure.of(["error"], params, meta).meta).toEqual(meta);
+    expect(data.withMeta({ source: "cache" }).meta).toEqual({
+      ...meta,
+      source: "cache"
+    });
+    expect(data.withMeta()).toBe(data);
+  });
+
+  test("map and mapSafe preserve metadata", () => {
+    expect(data.map((x: number) => x + 1).meta).toEqual(meta);
+    expect(data.mapSafe((x: number) => x + 1).meta).toEqual(meta);
+    const failed = data.mapSafe(() => {
+      throw new Error("bad");
+    });
+    expect(failed).toBeInstanceOf(Failure);
+    expect(failed.meta).toEqual(meta);
+    expect(
+      data
+        .refresh()
+        .map((x: number) => x + 1)
+        .getDataOr(0)
+    ).toBe(43);
+  });
+
+  test("chain preserves metadata unless the result has its own", () => {
+    const chained = data.chain((d: Data<number, { id: string }>) =>
+      Data.of(d.value * 2, d.params)
+    );
+    expect(chained.meta).toEqual(meta);
+    const own = data.chain((d: Data<number, { id: string }>) =>
+      Data.of(d.value, d.params, { source: "cache" })
+    );
+    expect(own.meta).toEqual({ source: "cache" });
+  });
+
+  test("isStale compares expiresAt with now", () => {
+    expect(Resource.isStale(data, 1999)).toBe(false);
+    expect(Resource.isStale(data, 2000)).toBe(true);
+    expect(Resource.isStale(Data.of(42, params), 5000)).toBe(false);
+  });
+
+  test("expire makes a Resource stale", () => {
+    const expired = Resource.expire(Data.of(42, params), 3000);
+    expect(Resource.isStale(expired, 3000)).toBe(true);
+    expect(expired.getDataOr(0)).toBe(42);
+  });
+
+  test("metadata survives JSON round-trips", () => {
+    const revived = JSON.parse(
+      JSON.stringify(data.refresh()),
+      Resource.reviver
+    );
+    expect(revived.stale.meta).toEqual(meta);
+    expect(Resource.fromJSON(Resource.toJSON(data))).toEqual(data);
+  });
+});
+
+describe("Query progress", () => {
+  const params = { file: "a.png" };
+
+  test("withProgress computes the percentage immutably", () => {
+    const query = Query.of(params);
+    const uploading = query.withProgress({
+      loaded: 50,
+      total: 200,
+      phase: "uploading"
+    });
+    expect(query.progress).toBeUndefined();
+    expect(uploading).not.toBe(query);
+    expect(uploading.params).toEqual(params);
+    expect(uploading.progress).toEqual({
+      loaded: 50,
+      total: 200,
+      percentage: 25,
+      phase: "uploading"
+    });
+    expect(
+      uploading.withProgress({ loaded: 200 }).progress
+    ).toMatchObject({
+      loaded: 200,
+      percentage: 100,
+      phase: "uploading"
+    });
+  });
+
+  test("withProgress ignores totals that are not computable", () => {
+    const progress = Query.of(params).withProgress({
+      loaded: 10,
+      total: 0,
+      lengthComputable: false
+    }).progress;
+    expect(progress).toEqual({ loaded: 10 });
+  });
+
+  test("withProgress drops the percentage of a total no longer computable", () => {
+    const query = Query.of(params).withProgress({
+      loaded: 50,
+      total: 100
+    });
+    expect(
+      query.withProgress({ loaded: 80, lengthComputable: false })
+        .progress
+    ).toEqual({ loaded: 80 });
+    expect(
+      query.withProgress({
+        loaded: 80,
+        lengthComputable: false,
+        percentage: 90
+      }).progress
+    ).toEqual({ loaded: 80, percentage: 90 });
+  });
+
+  test("progress is kept through map and withMeta", () => {
+    const query = Data.of(1, params)
+      .refresh()
+      .withProgress({ loaded: 1, total: 4 });
+    expect(query.map((x: number) => x + 1).progress?.percentage).toBe(
+      25
+    );
+    expect(query.withMeta({ requestId: "r" }).progress?.loaded).toBe(
+      1
+    );
+    expect(query.refresh().progress).toBeUndefined();
+  });
+
+  test("overProgress emits Query updates then the final Data", async () => {
+    const updates: Resource<string, typeof params>[] = [];
+    const result = await Resource.overProgress(
+      params,
+      (report) => {
+        report({ loaded: 1, total: 2, lengthComputable: true });
+        report({ loaded: 2, total: 2, phase: "processing" });
+        return Promise.resolve("done");
+      },
+      (resource) => updates.push(resource)
+    );
+    expect(result).toBeInstanceOf(Data);
+    expect(updates.map((resource) => resource.type)).toEqual([
+      "Query",
+      "Query",
+      "Query",
+      "Data"
+    ]);
+    const last = updates[2];
+    expect(last instanceof Query && last.progress).toEqual({
+      loaded: 2,
+      total: 2,
+      percentage: 100,
+      phase: "processing"
+    });
+  });
+
+  test("overProgress captures failures and ignores late reports", async () => {
+    let late: (progress: { loaded: number }) => void = () =>
+      undefined;
+    const updates: Resource<string, typeof params>[] = [];
+    const result = await Resource.overProgress(
+      params,
+      (report) => {
+        late = report;
+        return Promise.reject(new Error("Upload failed"));
+      },
+      (resource) => updates.push(resource)
+    );
+    late({ loaded: 1 });
+    expect(result).toBeInstanceOf(Failure);
+    expect(updates.map((resource) => resource.type)).toEqual([
+      "Query",
+      "Failure"
+    ]);
+  });
+
+  test("progress survives JSON round-trips", () => {
+    const query = Query.of(params).withProgress({
+      loaded: 1,
+      total: 2
+    });
+    expect(Resource.fromJSON(Resource.toJSON(query))).toEqual(query);
+  });
+});
+
+describe("Resource.run", () => {
+  const params = { id: "123" };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const reasonOf = (error: unknown) =>
+    error instanceof ResourceRunError ? error.reason : "error";
+
+  test("resolves to Data with the params", async () => {
+    const fetcher = jest.fn((p: { id: string }) =>
+      Promise.resolve(`user ${p.id}`)
+    );
+    const result = await Resource.run(fetcher, params);
+    expect(result).toBeInstanceOf(Data);
+    expect(result.getDataOr("")).toBe("user 123");
+    expect(result.params).toEqual(params);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test("fails with a timeout reason and aborts the fetcher", async () => {
+    let signal: AbortSignal | undefined;
+    const pending = Resource.run(
+      (_p: { id: string }, s: AbortSignal) => {
+        signal = s;
+        return new Promise<string>(() => undefined);
+      },
+      params,
+      { timeoutMs: 100, onError: reasonOf }
+    );
+    await jest.advanceTimersByTimeAsync(100);
+    const result = await pending;
+    expect(result).toBeInstanceOf(Failure);
+    if (result instanceof Failure) {
+      expect(result.messages).toEqual(["timeout"]);
+    }
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test("fails with an aborted reason and does not retry", async () => {
+    const controller = new AbortController();
+    const fetcher = jest.fn(
+      () => new Promise<string>(() => undefined)
+    );
+    const pending = Resource.run(fetcher, params, {
+      signal: controller.signal,
+      retries: 3,
+      onError: reasonOf
+    });
+    controller.abort();
+    const result = await pending;
+    expect(result instanceof Failure && result.messages).toEqual([
+      "aborted"
+    ]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test("fails immediately with an already aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetcher = jest.fn(() => Promise.resolve("user"));
+    const result = await Resource.run(fetcher, params, {
+      signal: controller.signal
+    });
+    expect(result instanceof Failure && result.messages).toEqual([
+      "Request aborted"
+    ]);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  test("retries with backoff until the fetcher succeeds", async () => {
+    const fetcher = jest
+      .fn<Promise<string>, [{ id: string }, AbortSignal]>()
+      .mockRejectedValueOnce(new Error("503"))
+      .mockRejectedValueOnce(new Error("503"))
+      .mockResolvedValue("user");
+    const backoff = jest.fn((retry: number) => retry * 100);
+    const pending = Resource.run(fetcher, params, {
+      retries: 3,
+      backoff
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(200);
+    const result = await pending;
+    expect(result.getDataOr("")).toBe("user");
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(backoff.mock.calls.map(([retry]) => retry)).toEqual([
+      1, 2
+    ]);
+  });
+
+  test("stops after the last retry with the last error", async () => {
+    const fetcher = jest.fn((_p: { id: string }) =>
+      Promise.reject(new Error("503"))
+    );
+    const pending = Resource.run(fetcher, params, {
+      retries: 2,
+      backoff: 50
+    });
+    await jest.advanceTimersByTimeAsync(100);
+    const result = await pending;
+    expect(result instanceof Failure && result.messages).toEqual([
+      "503"
+    ]);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  test("retryIf decides which errors are retried", async () => {
+    const fetcher = jest.fn((_p: { id: string }) =>
+      Promise.reject(new Error("404"))
+    );
+    const result = await Resource.run(fetcher, params, {
+      retries: 2,
+      retryIf: (error) => (error as Error).message !== "404"
+    });
+    expect(result).toBeInstanceOf(Failure);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  test("aborting during backoff fails without another attempt", async () => {
+    const controller = new AbortController();
+    const fetcher = jest.fn((_p: { id: string }) =>
+      Promise.reject(new Error("503"))
+    );
+    const pending = Resource.run(fetcher, params, {
+      signal: controller.signal,
+      retries: 1,
+      backoff: 1000,
+      onError: reasonOf
+    });
+    await jest.advanceTimersByTimeAsync(500);
+    controller.abort();
+    const result = await pending;
+    expect(result instanceof Failure && result.messages).toEqual([
+      "aborted"
+    ]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Validation bridges", () => {
+  const user = Validation.struct({
+    name: Validator.required<string>(),
+    age: Validator.pipe(
+      Validator.required<number>(),
+      Validator.integer()
+    )
+  });
+
+  test("fromValidation turns Passing into Data and Failing into Failure", () => {
+    expect(
+      Resource.fromValidation(Validation.Passing(1), "p")
+    ).toEqual(Data.of(1, "p"));
+    expect(
+      Resource.fromValidation(Validation.Failing(["a", "b"]), "p")
+    ).toEqual(Failure.of(["a", "b"], "p"));
+  });
+
+  test("fromValidation can keep structured errors", () => {
+    const result = Resource.fromValidation(
+      user({ name: "", age: 1 }),
+      undefined,
+      (error) => error
+    );
+    expect(result).toBeInstanceOf(Failure);
+    expect(
+      (result as Failure<undefined, ValidationError>).messages
+    ).toEqual([
+      { path: ["name"], code: "required", message: "Required" }
+    ]);
+  });
+
+  test("validate runs a validator on Data, keeping params and meta", () => {
+    const meta = { fetchedAt: 1, source: "network" };
+    const valid = Data.of(
+      { name: "Jane", age: 30 },
+      "p",
+      meta
+    ).validate(user);
+    expect(valid).toEqual(
+      Data.of({ name: "Jane", age: 30 }, "p", meta)
+    );
+    const invalid = Data.of(
+      { name: "Jane", age: 1.5 },
+      "p",
+      meta
+    ).validate(user);
+    expect(invalid).toEqual(
+      Failure.of(["Must be a whole number"], "p", meta)
+    );
+  });
+
+  test("validate checks the stale value of a refreshing Query", () => {
+    const refreshing = Data.of(-1, "p").refresh();
+    expect(refreshing.validate(Validator.min(0))).toEqual(
+      Query.of("p")
+    );
+    const kept = Data.of(1, "p").refresh().validate(Validator.min(0));
+    expect(Resource.isRefreshing(kept)).toBe(true);
+  });
+
+  test("validate leaves Empty and Failure unchanged", () => {
+    const empty = Empty.of("p");
+    const failure = Failure.of(["error"], "p");
+    expect(empty.validate(Validator.min(0))).toBe(empty);
+    expect(failure.validate(Validator.min(0))).toBe(failure);
+  });
+
+  test("Validation.toResource matches Resource.fromValidation", () => {
+    const validation = user({ name: "Jane", age: 30 });
+    expect(Validation.toResource(validation, "p")).toEqual(
+      Resource.fromValidation(validation, "p")
+    );
+  });
+});
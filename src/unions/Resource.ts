@@ -1,3 +1,7 @@
+import { isPlain, JSON_TAG } from "./plain";
+import type { Validation, ValidationError } from "./Validation";
+import type { Validator } from "../validators/Validator";
+
 /**
  * A sum type for managing asynchronous data states in a functional programming style.
  * Represents four states: success (`Data`), loading (`Query`), empty (`Empty`), or failure (`Failure`).
@@ -6,6 +10,7 @@
  *
  * @typeParam T - The type of the data in `Data` state.
  * @typeParam Q - The type of optional parameters (e.g., query params for API calls).
+ * @typeParam E - The type of the errors held by `Failure` (defaults to `string` messages).
  *
  * @example
  * // Create a Resource for a user fetch
@@ -32,34 +37,84 @@ export enum ResourceTypes {
 /**
  * Union type for Resource variants.
  */
-export type Resource<T, Q> =
+export type Resource<T, Q, E = string> =
   | Data<T, Q>
-  | Query<Q>
+  | Query<Q, T>
   | Empty<Q>
-  | Failure<Q>;
+  | Failure<Q, E>;
 
 /**
  * Pattern for matching Resource states, used with `matchWith`.
  * @typeParam T - The type of the data in `Data` state.
  * @typeParam Q - The type of optional parameters.
  * @typeParam R - The return type of the pattern functions.
+ * @typeParam E - The type of the errors in `Failure` state.
  */
-export interface ResourcePattern<T, Q, R> {
-  Query: (resource: Query<Q>) => R;
+export interface ResourcePattern<T, Q, R, E = string> {
+  Query: (resource: Query<Q, T>) => R;
   Data: (resource: Data<T, Q>) => R;
   Empty: (resource: Empty<Q>) => R;
-  Failure: (resource: Failure<Q>) => R;
+  Failure: (resource: Failure<Q, E>) => R;
 }
 
 /**
  * Partial pattern for side-effecting matches.
  */
-type PartialPattern<T, Q> = Partial<ResourcePattern<T, Q, void>>;
+type PartialPattern<T, Q, E = string> = Partial<
+  ResourcePattern<T, Q, void, E>
+>;
+
+/**
+ * Optional freshness metadata carried by every Resource variant.
+ * Preserved through `map`, `mapSafe` and `chain`; see `isStale` and `expire`.
+ */
+export interface ResourceMeta {
+  /** When the data was fetched, in epoch milliseconds. */
+  fetchedAt?: number;
+  /** When the data should be considered stale, in epoch milliseconds. */
+  expiresAt?: number;
+  /** Identifier of the request that produced this state. */
+  requestId?: string;
+  /** Where the state came from. */
+  source?: "cache" | "network" | (string & {});
+}
+
+/**
+ * Progress of a `Query`, for uploads and long-running jobs.
+ */
+export interface ResourceProgress {
+  /** Amount of work done (e.g., bytes sent). */
+  loaded: number;
+  /** Total amount of work, when known. */
+  total?: number;
+  /** Completion between 0 and 100, derived from `loaded` and `total` when both are known. */
+  percentage?: number;
+  /** Label of the current phase (e.g., 'uploading', 'processing'). */
+  phase?: string;
+}
+
+/**
+ * A progress report as sent by XHR/fetch-like progress callbacks.
+ */
+export interface ProgressReport {
+  loaded: number;
+  total?: number;
+  /** When false, `total` is ignored (as with `ProgressEvent.lengthComputable`). */
+  lengthComputable?: boolean;
+  percentage?: number;
+  phase?: string;
+}
+
+/**
+ * Converts a thrown or rejected value into the default `string` error message.
+ */
+const toMessage = (error: unknown): string =>
+  error instanceof globalThis.Error ? error.message : String(error);
 
 /**
  * Interface for Resource methods, implementing functor, applicative functor, and monad operations.
  */
-export interface ResourceMethods<T, Q> {
+export interface ResourceMethods<T, Q, E = string> {
   /**
    * Transforms the `Data` value using a function, preserving the Resource structure.
    * Acts as a functor operation, similar to `Array.map`. Non-`Data` variants return unchanged.
@@ -71,20 +126,26 @@ export interface ResourceMethods<T, Q> {
    * const data = Resource.Data(42, { id: '123' });
    * const result = data.map(x => x + 1); // Data<43, { id: '123' }>
    */
-  map: <R>(fn: (x: T) => R) => Resource<R, Q>;
+  map: <R>(fn: (x: T) => R) => Resource<R, Q, E>;
 
   /**
    * Safely transforms the `Data` value, catching errors and returning `Failure` if the function throws.
    * Useful for error-prone operations (e.g., parsing JSON).
+   * By default the thrown value is reduced to its message; pass `onError` to keep a structured error instead.
    *
    * @param fn - Function to transform the `Data` value.
+   * @param onError - Optional function converting the thrown value into a `Failure` error.
    * @returns A new `Data` with the transformed value or `Failure` if an error occurs.
    *
    * @example
    * const data = Resource.Data('{"name": "Jane"}', { id: '123' });
    * const result = data.mapSafe(JSON.parse); // Data<{ name: 'Jane' }> or Failure
+   * const typed = data.mapSafe(JSON.parse, cause => ({ code: 'PARSE', cause })); // Failure<Q, { code, cause }>
    */
-  mapSafe: <R>(fn: (x: T) => R) => Resource<R, Q>;
+  mapSafe: <R, F = string>(
+    fn: (x: T) => R,
+    onError?: (error: unknown) => F
+  ) => Resource<R, Q, E | F>;
 
   /**
    * Chains a function that returns a Resource, enabling monadic composition.
@@ -97,9 +158,9 @@ export interface ResourceMethods<T, Q> {
    * const data = Resource.Data(42, { id: '123' });
    * const result = data.chain(d => Resource.Data(d.value * 2, d.params)); // Data<84, { id: '123' }>
    */
-  chain: <R, P>(
-    fn: (x: Data<T, Q>) => Resource<R, P>
-  ) => Resource<R, P>;
+  chain: <R, P, F = E>(
+    fn: (x: Data<T, Q>) => Resource<R, P, F>
+  ) => Resource<R, P, E | F>;
 
   /**
    * Applies a function wrapped in a Resource to the `Data` value, supporting applicative functor operations.
@@ -125,9 +186,9 @@ export interface ResourceMethods<T, Q> {
    * const result3 = fnRes.ap(failureVal); // Failure<number> (propagates failure from value resource)
    */
   // QVal allows the value resource to have a different param type than the function resource (this)
-  ap: <A, B, QVal>(
-    resourceWithValue: Resource<A, QVal>
-  ) => Resource<B, QVal>;
+  ap: <A, B, QVal, F = E>(
+    resourceWithValue: Resource<A, QVal, F>
+  ) => Resource<B, QVal, E | F>;
 
   /**
    * Lifts a value into a `Data` Resource, preserving existing `params` (if any).
@@ -140,7 +201,7 @@ export interface ResourceMethods<T, Q> {
    * const data = Resource.Data(42, { id: '123' });
    * const result = data.of(100); // Data<100, { id: '123' }>
    */
-  of: <R>(value: R) => Resource<R, Q>;
+  of: <R>(value: R) => Resource<R, Q, E>;
 
   /**
    * Matches the Resource state with a pattern, returning a value.
@@ -158,7 +219,7 @@ export interface ResourceMethods<T, Q> {
    *   Failure: () => 0,
    * }); // 84
    */
-  matchWith: <R>(pattern: ResourcePattern<T, Q, R>) => R;
+  matchWith: <R>(pattern: ResourcePattern<T, Q, R, E>) => R;
 
   /**
    * Matches the Resource state with a partial pattern, performing side effects.
@@ -170,7 +231,7 @@ export interface ResourceMethods<T, Q> {
    *   Failure: ({ messages }) => console.log(messages),
    * });
    */
-  matchWithPartial: (pattern: PartialPattern<T, Q>) => void;
+  matchWithPartial: (pattern: PartialPattern<T, Q, E>) => void;
 
   /**
    * Transitions to a `Query` state with new parameters.
@@ -185,8 +246,26 @@ export interface ResourceMethods<T, Q> {
   // Allows updating to a new parameter type P
   update: <P>(params: P) => Query<P>;
 
+  /**
+   * Transitions to a `Query` state that keeps the last successful `Data` as `stale`
+   * (stale-while-revalidate). The stale value stays readable through `getDataOr`,
+   * is transformed by `map`, and can be rendered by `ResourceRender` while refreshing.
+   * Variants without a previous `Data` produce a plain `Query`.
+   *
+   * @param params - New parameters for the `Query`; defaults to the current ones.
+   * @returns A new `Query` Resource, carrying the stale `Data` if there is one.
+   *
+   * @example
+   * const data = Resource.Data([1, 2], { page: 1 });
+   * const query = data.refresh({ page: 2 }); // Query<{ page: 2 }> with stale Data<[1, 2], { page: 1 }>
+   * query.getDataOr([]); // [1, 2]
+   * Resource.isRefreshing(query); // true
+   */
+  refresh: (params?: Q) => Query<Q, T>;
+
   /**
    * Returns the `Data` value or a fallback value for non-`Data` states.
+   * A refreshing `Query` returns its stale value instead of the fallback.
    *
    * @param value - Fallback value for non-`Data` states.
    * @returns The `Data` value or the fallback.
@@ -198,58 +277,179 @@ export interface ResourceMethods<T, Q> {
    * const fallback = failure.getDataOr(0); // 0
    */
   getDataOr: (value: T) => T;
+
+  /**
+   * Returns a copy of this Resource with `meta` merged into its metadata.
+   * Returns the same instance when `meta` is undefined.
+   *
+   * @param meta - Metadata to merge.
+   * @returns The same variant with the merged metadata.
+   *
+   * @example
+   * const data = Resource.Data(42).withMeta({ fetchedAt: Date.now(), source: 'network' });
+   */
+  withMeta: (meta?: ResourceMeta) => Resource<T, Q, E>;
+
+  /**
+   * Runs a validator on the `Data` value, such as to guard a server response before storing it.
+   * `Passing` keeps a `Data` of the validated value, while `Failing` becomes a `Failure` whose
+   * errors are the validation messages, or built by `onError` from each structured error.
+   * A refreshing `Query` validates its stale value, dropping it when invalid; `Empty` and
+   * `Failure` return unchanged. Passing warnings are dropped.
+   *
+   * @param validator - The validator to run on the value.
+   * @param onError - Optional function converting each validation error into a `Failure` error.
+   * @returns The validated Resource, keeping params and metadata.
+   *
+   * @example
+   * const user = Resource.Data(json, { id: '123' }).validate(userValidator);
+   * // Data<User, { id: '123' }> | Failure<{ id: '123' }> with the validation messages
+   */
+  validate: <R, F = string>(
+    validator: Validator<T, R>,
+    onError?: (error: ValidationError) => F
+  ) => Resource<R, Q, E | F>;
 }
 
 /**
  * Represents a loading state, typically for asynchronous operations.
+ * A `Query` created through `refresh` keeps the last successful `Data` as `stale`,
+ * so the previous value stays available while the new request is in flight.
+ * A `Query` may also carry `progress`, updated immutably through `withProgress`.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam T - The type of the stale data value, if any.
  */
-export class Query<Q> implements ResourceMethods<any, Q> {
+export class Query<Q, T = any> implements ResourceMethods<T, Q, any> {
   readonly type = ResourceTypes.Query;
 
-  constructor(readonly params?: Q) {}
+  constructor(
+    readonly params?: Q,
+    readonly stale?: Data<T, Q>,
+    readonly meta?: ResourceMeta,
+    readonly progress?: ResourceProgress
+  ) {}
 
   /**
    * Creates a new `Query` Resource.
    * @param params - Optional parameters (e.g., query params).
+   * @param stale - Optional last successful `Data`, kept while refreshing.
+   * @param meta - Optional freshness metadata.
+   * @param progress - Optional progress of the request.
    */
-  static of<Q>(params?: Q): Query<Q> {
-    return new Query<Q>(params);
+  static of<Q, T = any>(
+    params?: Q,
+    stale?: Data<T, Q>,
+    meta?: ResourceMeta,
+    progress?: ResourceProgress
+  ): Query<Q, T> {
+    return new Query<Q, T>(params, stale, meta, progress);
   }
 
-  public map<R>(_fn: (x: any) => R): Query<Q> {
-    return this;
+  /**
+   * Returns a copy of this `Query` with `report` merged into its progress.
+   * `percentage` is recomputed from `loaded` and `total` when the total is known, and
+   * dropped with the total when a report is not `lengthComputable`.
+   *
+   * @param report - Progress update, e.g. an XHR `ProgressEvent`.
+   * @returns A new `Query` with the updated progress.
+   *
+   * @example
+   * const uploading = Resource.Query({ file: 'a.png' }).withProgress({ loaded: 50, total: 200, phase: 'uploading' });
+   * uploading.progress; // { loaded: 50, total: 200, percentage: 25, phase: 'uploading' }
+   */
+  public withProgress(report: ProgressReport): Query<Q, T> {
+    const { lengthComputable, ...update } = report;
+    const progress: ResourceProgress = {
+      ...this.progress,
+      ...update
+    };
+    if (lengthComputable === false) {
+      delete progress.total;
+      // A percentage of the dropped total no longer applies
+      if (update.percentage === undefined) {
+        delete progress.percentage;
+      }
+    }
+    if (progress.total) {
+      progress.percentage = Math.min(
+        100,
+        (progress.loaded / progress.total) * 100
+      );
+    }
+    return Query.of(this.params, this.stale, this.meta, progress);
   }
 
-  public mapSafe<R>(_fn: (x: any) => R): Query<Q> {
-    return this;
+  // A refreshing Query maps its stale value so it can still be rendered
+  public map<R>(fn: (x: T) => R): Query<Q, R> {
+    if (!this.stale) {
+      return this as unknown as Query<Q, R>;
+    }
+    return Query.of(
+      this.params,
+      this.stale.map(fn),
+      this.meta,
+      this.progress
+    );
   }
 
-  public chain<R, P>(
-    _fn: (x: Data<any, Q>) => Resource<R, P>
-  ): Resource<R, P> {
+  // A stale value that fails to transform is dropped, the Query keeps loading
+  public mapSafe<R, F = string>(
+    fn: (x: T) => R,
+    onError?: (error: unknown) => F
+  ): Query<Q, R> {
+    if (!this.stale) {
+      return this as unknown as Query<Q, R>;
+    }
+    const stale = this.stale.mapSafe(fn, onError);
+    return Query.of(
+      this.params,
+      stale.type === ResourceTypes.Data ? stale : undefined,
+      this.meta,
+      this.progress
+    );
+  }
+
+  public chain<R, P, F = never>(
+    fn: (x: Data<T, Q>) => Resource<R, P, F>
+  ): Resource<R, P, F> {
     // Changed return type
     // Return Query, but cast to the expected return type.
     // This assumes P is compatible with Q or the context handles it.
-    return this as unknown as Resource<R, P>;
+    if (!this.stale) {
+      return this as unknown as Resource<R, P, F>;
+    }
+    // Keep the chained stale value only when it is still Data
+    const stale = this.stale.chain(fn);
+    return Query.of<unknown, R>(
+      this.params,
+      stale.type === ResourceTypes.Data ? stale : undefined,
+      this.meta,
+      this.progress
+    ) as unknown as Resource<R, P, F>;
   }
 
   // Query contains no function, so ap returns Query, preserving QVal but changing T to B
-  public ap<A, B, QVal>(
-    _resourceWithValue: Resource<A, QVal>
-  ): Resource<B, QVal> {
+  public ap<A, B, QVal, F = never>(
+    _resourceWithValue: Resource<A, QVal, F>
+  ): Resource<B, QVal, F> {
     // Returns Query with the params from the *value* resource
     return Query.of(_resourceWithValue.params);
   }
 
+  // Used by JSON.stringify, so the output is tagged for `reviver`
+  public toJSON(): ResourceJSON<T, Q, any> {
+    return toJSON(this);
+  }
+
   public of<R>(value: R): Data<R, Q> {
     return Data.of(value, this.params);
   }
 
-  public matchWith<R>(pattern: ResourcePattern<any, Q, R>): R {
+  public matchWith<R>(pattern: ResourcePattern<T, Q, R, any>): R {
     return pattern.Query(this);
   }
 
-  public matchWithPartial(pattern: PartialPattern<any, Q>): void {
+  public matchWithPartial(pattern: PartialPattern<T, Q, any>): void {
     if (pattern.Query) {
       pattern.Query(this);
     }
@@ -260,63 +460,100 @@ export class Query<Q> implements ResourceMethods<any, Q> {
     return Query.of(params);
   }
 
-  public getDataOr(value: any): any {
-    return value;
+  public refresh(params?: Q): Query<Q, T> {
+    return Query.of(params ?? this.params, this.stale);
+  }
+
+  // Returns the stale value while refreshing
+  public getDataOr(value: T): T {
+    return this.stale ? this.stale.value : value;
+  }
+
+  public withMeta(meta?: ResourceMeta): Query<Q, T> {
+    return meta
+      ? Query.of(
+          this.params,
+          this.stale,
+          { ...this.meta, ...meta },
+          this.progress
+        )
+      : this;
+  }
+
+  public validate<R, F = string>(
+    validator: Validator<T, R>,
+    onError?: (error: ValidationError) => F
+  ): Resource<R, Q, F> {
+    return this.chain(({ value, params }) =>
+      fromValidation(validator(value), params, onError)
+    );
   }
 }
 
 /**
  * Represents a successful state with data.
  */
-export class Data<T, Q> implements ResourceMethods<T, Q> {
+export class Data<T, Q> implements ResourceMethods<T, Q, any> {
   readonly type = ResourceTypes.Data;
 
   constructor(
     readonly value: T,
-    readonly params?: Q
+    readonly params?: Q,
+    readonly meta?: ResourceMeta
   ) {}
 
   /**
    * Creates a new `Data` Resource.
    * @param value - The data value.
    * @param params - Optional parameters.
+   * @param meta - Optional freshness metadata.
    */
-  static of<T, Q>(value: T, params?: Q): Data<T, Q> {
-    return new Data(value, params);
+  static of<T, Q>(
+    value: T,
+    params?: Q,
+    meta?: ResourceMeta
+  ): Data<T, Q> {
+    return new Data(value, params, meta);
   }
 
   public map<R>(fn: (x: T) => R): Data<R, Q> {
     const result = fn(this.value);
-    return Data.of(result, this.params);
+    return Data.of(result, this.params, this.meta);
   }
 
-  public mapSafe<R>(fn: (x: T) => R): Data<R, Q> | Failure<Q> {
+  public mapSafe<R, F = string>(
+    fn: (x: T) => R,
+    onError?: (error: unknown) => F
+  ): Data<R, Q> | Failure<Q, F> {
     try {
       const result = fn(this.value);
-      return Data.of(result, this.params);
+      return Data.of(result, this.params, this.meta);
     } catch (error: unknown) {
-      const message =
-        error instanceof Error ? error.message : String(error);
-      return Failure.of([message], this.params);
+      return fromError(error, this.params, onError).withMeta(
+        this.meta
+      );
     }
   }
 
-  public chain<R, P>(
-    fn: (x: Data<T, Q>) => Resource<R, P>
-  ): Resource<R, P> {
-    return fn(this);
+  // The chained Resource inherits this metadata unless it carries its own
+  public chain<R, P, F = never>(
+    fn: (x: Data<T, Q>) => Resource<R, P, F>
+  ): Resource<R, P, F> {
+    const result = fn(this);
+    return result.meta ? result : result.withMeta(this.meta);
   }
 
   // Standard applicative ap: Applies the function in `this` (if Data) to the value in `resourceWithValue`
-  public ap<A, B, QVal>(
-    resourceWithValue: Resource<A, QVal>
-  ): Resource<B, QVal> {
+  // The error type includes string for the Failure returned when `this` holds no function
+  public ap<A, B, QVal, F = never>(
+    resourceWithValue: Resource<A, QVal, F>
+  ): Resource<B, QVal, F | string> {
     // Matches new interface signature
     // Runtime check to ensure 'this' actually holds a function
     if (typeof this.value !== "function") {
       // This case should ideally not happen if used correctly, but handle defensively
       // Return Failure with the params from the *value* resource
-      return Failure.of(
+      return Failure.of<QVal, F | string>(
         [
           `Resource.ap called on Data variant that does not contain a function`
         ],
@@ -346,15 +583,20 @@ export class Data<T, Q> implements ResourceMethods<T, Q> {
     return resourceWithValue.map(fn);
   }
 
+  // Used by JSON.stringify, so the output is tagged for `reviver`
+  public toJSON(): ResourceJSON<T, Q, any> {
+    return toJSON(this);
+  }
+
   public of<R>(value: R): Data<R, Q> {
     return Data.of(value, this.params);
   }
 
-  public matchWith<R>(pattern: ResourcePattern<T, Q, R>): R {
+  public matchWith<R>(pattern: ResourcePattern<T, Q, R, any>): R {
     return pattern.Data(this);
   }
 
-  public matchWithPartial(pattern: PartialPattern<T, Q>): void {
+  public matchWithPartial(pattern: PartialPattern<T, Q, any>): void {
     if (pattern.Data) {
       pattern.Data(this);
     }
@@ -365,59 +607,93 @@ export class Data<T, Q> implements ResourceMethods<T, Q> {
     return Query.of(params);
   }
 
+  // Keeps this Data as the stale value of the new Query
+  public refresh(params?: Q): Query<Q, T> {
+    return Query.of(params ?? this.params, this);
+  }
+
   public getDataOr(_ingore: unknown): T {
     return this.value;
   }
+
+  public withMeta(meta?: ResourceMeta): Data<T, Q> {
+    return meta
+      ? Data.of(this.value, this.params, { ...this.meta, ...meta })
+      : this;
+  }
+
+  public validate<R, F = string>(
+    validator: Validator<T, R>,
+    onError?: (error: ValidationError) => F
+  ): Resource<R, Q, F> {
+    return this.chain(({ value, params }) =>
+      fromValidation(validator(value), params, onError)
+    );
+  }
 }
 
 /**
  * Represents an empty state (e.g., no data returned).
  */
-export class Empty<Q> implements ResourceMethods<any, Q> {
+export class Empty<Q> implements ResourceMethods<any, Q, any> {
   readonly type = ResourceTypes.Empty;
 
-  constructor(readonly params?: Q) {}
+  constructor(
+    readonly params?: Q,
+    readonly meta?: ResourceMeta
+  ) {}
 
   /**
    * Creates a new `Empty` Resource.
    * @param params - Optional parameters.
+   * @param meta - Optional freshness metadata.
    */
-  static of<Q>(params?: Q): Empty<Q> {
-    return new Empty<Q>(params);
+  static of<Q>(params?: Q, meta?: ResourceMeta): Empty<Q> {
+    return new Empty<Q>(params, meta);
   }
 
   public map<R>(_fn: (x: any) => R): Empty<Q> {
     return this;
   }
 
-  public mapSafe<R>(_fn: (x: any) => R): Empty<Q> {
+  public mapSafe<R, F = string>(
+    _fn: (x: any) => R,
+    _onError?: (error: unknown) => F
+  ): Empty<Q> {
     return this;
   }
 
-  public chain<R, P>(
-    _fn: (x: Data<any, Q>) => Resource<R, P>
-  ): Resource<R, P> {
+  public chain<R, P, F = never>(
+    _fn: (x: Data<any, Q>) => Resource<R, P, F>
+  ): Resource<R, P, F> {
     // Changed return type
-    return this as unknown as Resource<R, P>;
+    return this as unknown as Resource<R, P, F>;
   }
 
   // Empty contains no function, so ap returns Empty, preserving QVal but changing T to B
-  public ap<A, B, QVal>(
-    _resourceWithValue: Resource<A, QVal>
-  ): Resource<B, QVal> {
+  public ap<A, B, QVal, F = never>(
+    _resourceWithValue: Resource<A, QVal, F>
+  ): Resource<B, QVal, F> {
     // Returns Empty with the params from the *value* resource
     return Empty.of(_resourceWithValue.params);
   }
 
+  // Used by JSON.stringify, so the output is tagged for `reviver`
+  public toJSON(): ResourceJSON<any, Q, any> {
+    return toJSON(this);
+  }
+
   public of<R>(value: R): Data<R, Q> {
     return Data.of(value, this.params);
   }
 
-  public matchWith<R>(pattern: ResourcePattern<any, Q, R>): R {
+  public matchWith<R>(pattern: ResourcePattern<any, Q, R, any>): R {
     return pattern.Empty(this);
   }
 
-  public matchWithPartial(pattern: PartialPattern<any, Q>): void {
+  public matchWithPartial(
+    pattern: PartialPattern<any, Q, any>
+  ): void {
     if (pattern.Empty) {
       pattern.Empty(this);
     }
@@ -428,63 +704,105 @@ export class Empty<Q> implements ResourceMethods<any, Q> {
     return Query.of(params);
   }
 
+  public refresh(params?: Q): Query<Q> {
+    return Query.of(params ?? this.params);
+  }
+
   public getDataOr(value: any): any {
     return value;
   }
+
+  public withMeta(meta?: ResourceMeta): Empty<Q> {
+    return meta
+      ? Empty.of(this.params, { ...this.meta, ...meta })
+      : this;
+  }
+
+  public validate<R, F = string>(
+    _validator: Validator<any, R>,
+    _onError?: (error: ValidationError) => F
+  ): Resource<R, Q, F> {
+    return this as unknown as Resource<R, Q, F>;
+  }
 }
 
 /**
  * Represents a failed state with error messages.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of each error (defaults to `string` messages).
+ *
+ * @example
+ * interface ApiError { status: number; code: string; retryable: boolean; cause?: unknown }
+ * const failure = Resource.Failure<{ id: string }, ApiError>(
+ *   [{ status: 503, code: 'UNAVAILABLE', retryable: true }],
+ *   { id: '123' }
+ * );
  */
-export class Failure<Q> implements ResourceMethods<any, Q> {
+export class Failure<Q, E = string>
+  implements ResourceMethods<any, Q, E>
+{
   readonly type = ResourceTypes.Failure;
 
   constructor(
-    readonly messages: string[],
-    readonly params?: Q
+    readonly messages: E[],
+    readonly params?: Q,
+    readonly meta?: ResourceMeta
   ) {}
 
   /**
    * Creates a new `Failure` Resource.
-   * @param messages - Array of error messages.
+   * @param messages - Array of errors (plain messages by default).
    * @param params - Optional parameters.
+   * @param meta - Optional freshness metadata.
    */
-  static of<Q>(messages: string[], params?: Q): Failure<Q> {
-    return new Failure(messages, params);
+  static of<Q, E = string>(
+    messages: E[],
+    params?: Q,
+    meta?: ResourceMeta
+  ): Failure<Q, E> {
+    return new Failure(messages, params, meta);
   }
 
-  public map<R>(_fn: (x: any) => R): Failure<Q> {
+  public map<R>(_fn: (x: any) => R): Failure<Q, E> {
     return this;
   }
 
-  public mapSafe<R>(_fn: (x: any) => R): Failure<Q> {
+  public mapSafe<R, F = string>(
+    _fn: (x: any) => R,
+    _onError?: (error: unknown) => F
+  ): Failure<Q, E> {
     return this;
   }
 
-  public chain<R, P>(
-    _fn: (x: Data<any, Q>) => Resource<R, P>
-  ): Resource<R, P> {
+  public chain<R, P, F = E>(
+    _fn: (x: Data<any, Q>) => Resource<R, P, F>
+  ): Resource<R, P, E | F> {
     // Changed return type
-    return this as unknown as Resource<R, P>;
+    return this as unknown as Resource<R, P, E | F>;
   }
 
   // Failure contains no function, so ap returns Failure, preserving QVal but changing T to B
-  public ap<A, B, QVal>(
-    _resourceWithValue: Resource<A, QVal>
-  ): Resource<B, QVal> {
+  public ap<A, B, QVal, F = E>(
+    _resourceWithValue: Resource<A, QVal, F>
+  ): Resource<B, QVal, E | F> {
     // Returns Failure with the params from the *value* resource
     return Failure.of(this.messages, _resourceWithValue.params);
   }
 
+  // Used by JSON.stringify, so the output is tagged for `reviver`
+  public toJSON(): ResourceJSON<any, Q, E> {
+    return toJSON(this);
+  }
+
   public of<R>(value: R): Data<R, Q> {
     return Data.of(value, this.params);
   }
 
-  public matchWith<R>(pattern: ResourcePattern<any, Q, R>): R {
+  public matchWith<R>(pattern: ResourcePattern<any, Q, R, E>): R {
     return pattern.Failure(this);
   }
 
-  public matchWithPartial(pattern: PartialPattern<any, Q>): void {
+  public matchWithPartial(pattern: PartialPattern<any, Q, E>): void {
     if (pattern.Failure) {
       pattern.Failure(this);
     }
@@ -495,9 +813,29 @@ export class Failure<Q> implements ResourceMethods<any, Q> {
     return Query.of(params);
   }
 
+  public refresh(params?: Q): Query<Q> {
+    return Query.of(params ?? this.params);
+  }
+
   public getDataOr(value: any): any {
     return value;
   }
+
+  public withMeta(meta?: ResourceMeta): Failure<Q, E> {
+    return meta
+      ? Failure.of(this.messages, this.params, {
+          ...this.meta,
+          ...meta
+        })
+      : this;
+  }
+
+  public validate<R, F = string>(
+    _validator: Validator<any, R>,
+    _onError?: (error: ValidationError) => F
+  ): Resource<R, Q, E | F> {
+    return this as unknown as Resource<R, Q, E | F>;
+  }
 }
 
 /**
@@ -505,9 +843,9 @@ export class Failure<Q> implements ResourceMethods<any, Q> {
  * @param resource - The Resource to match.
  * @param pattern - Pattern object with functions for each state.
  */
-export const matchWith = <T, Q, R>(
-  resource: Resource<T, Q>,
-  pattern: ResourcePattern<T, Q, R>
+export const matchWith = <T, Q, R, E = string>(
+  resource: Resource<T, Q, E>,
+  pattern: ResourcePattern<T, Q, R, E>
 ): R => {
   switch (resource.type) {
     case ResourceTypes.Data:
@@ -524,14 +862,58 @@ export const matchWith = <T, Q, R>(
 /**
  * Type predicates for Resource variants.
  */
-export const isData = <T, Q>(resource: Resource<T, Q>): boolean =>
-  resource.type === ResourceTypes.Data;
-export const isQuery = <T, Q>(resource: Resource<T, Q>): boolean =>
-  resource.type === ResourceTypes.Query;
-export const isFailure = <T, Q>(resource: Resource<T, Q>): boolean =>
-  resource.type === ResourceTypes.Failure;
-export const isEmpty = <T, Q>(resource: Resource<T, Q>): boolean =>
-  resource.type === ResourceTypes.Empty;
+export const isData = <T, Q, E = string>(
+  resource: Resource<T, Q, E>
+): boolean => resource.type === ResourceTypes.Data;
+export const isQuery = <T, Q, E = string>(
+  resource: Resource<T, Q, E>
+): boolean => resource.type === ResourceTypes.Query;
+export const isFailure = <T, Q, E = string>(
+  resource: Resource<T, Q, E>
+): boolean => resource.type === ResourceTypes.Failure;
+export const isEmpty = <T, Q, E = string>(
+  resource: Resource<T, Q, E>
+): boolean => resource.type === ResourceTypes.Empty;
+
+/**
+ * Checks whether a Resource is a `Query` still holding a stale `Data` from `refresh`.
+ * @param resource - The Resource to check.
+ */
+export const isRefreshing = <T, Q, E = string>(
+  resource: Resource<T, Q, E>
+): boolean =>
+  resource.type === ResourceTypes.Query &&
+  resource.stale !== undefined;
+
+/**
+ * Checks whether a Resource has expired: its `meta.expiresAt` is at or before `now`.
+ * Resources without `expiresAt` never become stale.
+ * @param resource - The Resource to check.
+ * @param now - The current time in epoch milliseconds; defaults to `Date.now()`.
+ *
+ * @example
+ * const data = Resource.Data(users, params, { fetchedAt: now, expiresAt: now + 60_000 });
+ * if (Resource.isStale(data)) dispatch(usersSlice.actions.refresh());
+ */
+export const isStale = <T, Q, E = string>(
+  resource: Resource<T, Q, E>,
+  now: number = Date.now()
+): boolean =>
+  resource.meta?.expiresAt !== undefined &&
+  resource.meta.expiresAt <= now;
+
+/**
+ * Marks a Resource as expired by setting `meta.expiresAt` to `now`, so `isStale` reports it.
+ * @param resource - The Resource to expire.
+ * @param now - The current time in epoch milliseconds; defaults to `Date.now()`.
+ *
+ * @example
+ * const invalidated = Resource.expire(userResource); // isStale(invalidated) === true
+ */
+export const expire = <T, Q, E = string>(
+  resource: Resource<T, Q, E>,
+  now: number = Date.now()
+): Resource<T, Q, E> => resource.withMeta({ expiresAt: now });
 
 export const hasInstance = {
   Data: isData,
@@ -540,25 +922,659 @@ export const hasInstance = {
   Empty: isEmpty
 };
 
+/**
+ * Builds a `Failure` from a thrown or rejected value, as `mapSafe` and `overPromise` do.
+ * The value is reduced to its message unless `onError` is given, in which case
+ * it receives the original value and builds the `Failure` error.
+ * @param error - The thrown or rejected value.
+ * @param params - Optional parameters.
+ * @param onError - Optional function converting the value into a `Failure` error.
+ *
+ * @example
+ * Resource.fromError(new Error('Timeout'), { id: '123' }); // Failure<['Timeout'], { id: '123' }>
+ */
+export const fromError = <Q, E = string>(
+  error: unknown,
+  params?: Q,
+  onError?: (error: unknown) => E
+): Failure<Q, E> => {
+  // Without onError, E defaults to string and the message is used
+  const toError = onError ?? (toMessage as (error: unknown) => E);
+  return Failure.of([toError(error)], params);
+};
+
+/**
+ * Builds a Resource from a Validation: `Passing` becomes `Data` and `Failing` becomes a
+ * `Failure` whose errors are the validation messages, or built by `onError` from each
+ * structured error. Passing warnings are dropped.
+ * @param validation - The Validation to convert.
+ * @param params - Optional parameters.
+ * @param onError - Optional function converting each validation error into a `Failure` error.
+ *
+ * @example
+ * const payload = Resource.fromValidation(form(values), { endpoint: '/settings' });
+ * // Data<Settings> | Failure with the form messages
+ * const fields = Resource.fromValidation(form(values), undefined, (error) => error);
+ * // Failure<undefined, ValidationError> keeping paths and codes
+ */
+export const fromValidation = <T, Q = undefined, F = string>(
+  validation: Validation<T>,
+  params?: Q,
+  onError?: (error: ValidationError) => F
+): Data<T, Q> | Failure<Q, F> => {
+  // Without onError, F defaults to string and the message is used
+  const toError =
+    onError ?? ((error: ValidationError) => error.message as F);
+  return validation.matchWith<Data<T, Q> | Failure<Q, F>>({
+    Passing: ({ value }) => Data.of(value, params),
+    Failing: ({ errors }) => Failure.of(errors.map(toError), params)
+  });
+};
+
 /**
  * Wraps a Promise in a Resource, resolving to `Data` or `Failure`.
+ * Rejections are reduced to their message unless `onError` is given, in which case
+ * it receives the original rejection value and builds the `Failure` error.
  * @param params - Optional parameters.
  * @param promise - The Promise to wrap.
+ * @param onError - Optional function converting the rejection into a `Failure` error.
+ *
+ * @example
+ * const user = await Resource.overPromise({ id: '123' }, fetchUser('123'), cause => ({
+ *   status: cause instanceof HttpError ? cause.status : 0,
+ *   cause
+ * })); // Data<User, { id: '123' }> | Failure<{ id: '123' }, { status, cause }>
  */
-export const overPromise = <R, Q>(
+export const overPromise = <R, Q, E = string>(
   params: Q | undefined,
-  promise: Promise<R>
-): Promise<Data<R, Q> | Failure<Q>> =>
+  promise: Promise<R>,
+  onError?: (error: unknown) => E
+): Promise<Data<R, Q> | Failure<Q, E>> =>
   promise.then(
     (value: R) => Data.of(value, params),
-    (error) => {
-      const message =
-        error instanceof globalThis.Error
-          ? error.message
-          : String(error);
-      return Failure.of([message], params);
+    (error: unknown) => fromError(error, params, onError)
+  );
+
+/**
+ * Runs an async job that reports progress, emitting a `Query` with the progress on every
+ * report and the final `Data` or `Failure` when the job settles (errors as in `overPromise`).
+ * Reports arriving after the job settled are ignored.
+ * @param params - Optional parameters.
+ * @param start - Starts the job; receives a `report` callback to wire to the progress source.
+ * @param onUpdate - Receives every Resource state: progressing `Query`s, then the final one.
+ * @param onError - Optional function converting the rejection into a `Failure` error.
+ * @returns A Promise of the final `Data` or `Failure`.
+ *
+ * @example
+ * const result = await Resource.overProgress(
+ *   { file: file.name },
+ *   report => upload(file, { onUploadProgress: report }),
+ *   resource => dispatch(uploadSlice.actions.set(resource))
+ * );
+ */
+export const overProgress = <R, Q, E = string>(
+  params: Q | undefined,
+  start: (report: (progress: ProgressReport) => void) => Promise<R>,
+  onUpdate: (resource: Resource<R, Q, E>) => void,
+  onError?: (error: unknown) => E
+): Promise<Data<R, Q> | Failure<Q, E>> => {
+  let query = Query.of<Q, R>(params);
+  let settled = false;
+  const report = (progress: ProgressReport) => {
+    if (!settled) {
+      query = query.withProgress(progress);
+      onUpdate(query);
+    }
+  };
+  onUpdate(query);
+  // Start inside a Promise so a synchronous throw also becomes a Failure
+  return overPromise(
+    params,
+    new Promise<R>((resolve) => resolve(start(report))),
+    onError
+  ).then((resource) => {
+    settled = true;
+    onUpdate(resource);
+    return resource;
+  });
+};
+
+/**
+ * Error produced by `run` when a request is aborted through its signal or times out.
+ * Passed to `onError`, so typed Failures can tell both cases apart through `reason`.
+ */
+export class ResourceRunError extends Error {
+  constructor(
+    readonly reason: "aborted" | "timeout",
+    message: string
+  ) {
+    super(message);
+    this.name = "ResourceRunError";
+  }
+}
+
+/**
+ * Options for `run`.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export interface RunOptions<E = string> {
+  /** Aborts the request, and any pending retry, when signalled. Aborts are never retried. */
+  signal?: AbortSignal;
+  /** Maximum duration of each attempt, in milliseconds. */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt; defaults to 0. */
+  retries?: number;
+  /** Delay before each retry in milliseconds, or a function of the retry number (from 1). */
+  backoff?: number | ((retry: number, error: unknown) => number);
+  /** Decides whether an error is retried; by default every error but an abort is. */
+  retryIf?: (error: unknown, retry: number) => boolean;
+  /** Converts the final error into a `Failure` error, as in `overPromise`. */
+  onError?: (error: unknown) => E;
+}
+
+const abortedError = () =>
+  new ResourceRunError("aborted", "Request aborted");
+
+/**
+ * Waits for `ms` milliseconds, rejecting early if the signal aborts.
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(abortedError());
     }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs a single attempt, racing the fetcher against the signal and the timeout.
+ * The fetcher's own signal aborts in both cases so it can stop its work.
+ */
+const attempt = <T, Q>(
+  fetcher: (params: Q, signal: AbortSignal) => Promise<T>,
+  params: Q,
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const controller = new AbortController();
+    const stop = (error: ResourceRunError) => {
+      cleanup();
+      controller.abort(error);
+      reject(error);
+    };
+    const onAbort = () => stop(abortedError());
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(
+            () =>
+              stop(
+                new ResourceRunError(
+                  "timeout",
+                  `Request timed out after ${timeoutMs}ms`
+                )
+              ),
+            timeoutMs
+          );
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    if (signal?.aborted) {
+      return onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    // Start inside a Promise so a synchronous throw also rejects the attempt
+    new Promise<T>((start) =>
+      start(fetcher(params, controller.signal))
+    )
+      .then(resolve, reject)
+      .finally(cleanup);
+  });
+
+/**
+ * Runs a fetcher and resolves to `Data` or `Failure`, with cancellation, timeout and retries.
+ * Unlike `overPromise`, it starts the request itself so it can abort, time out and retry it.
+ * Aborts and timeouts fail with a `ResourceRunError` whose `reason` is `aborted` or `timeout`
+ * (reduced to its message unless `onError` is given).
+ * @param fetcher - Starts the request; receives the params and a signal aborted on cancel or timeout.
+ * @param params - Optional parameters, passed to the fetcher and kept on the result.
+ * @param options - Signal, timeout, retry and error conversion options.
+ * @returns A Promise of the resulting `Data` or `Failure`; it never rejects.
+ *
+ * @example
+ * const controller = new AbortController();
+ * const user = await Resource.run(
+ *   ({ id }, signal) => fetch(`/users/${id}`, { signal }).then(r => r.json()),
+ *   { id: '123' },
+ *   {
+ *     signal: controller.signal,
+ *     timeoutMs: 5000,
+ *     retries: 3,
+ *     backoff: retry => 2 ** retry * 100,
+ *     onError: error => error instanceof ResourceRunError ? error.reason : 'network'
+ *   }
+ * ); // Data<User> | Failure<{ id: '123' }, 'aborted' | 'timeout' | 'network'>
+ */
+export const run = async <T, Q, E = string>(
+  fetcher: (params: Q, signal: AbortSignal) => Promise<T>,
+  params: Q,
+  options: RunOptions<E> = {}
+): Promise<Data<T, Q> | Failure<Q, E>> => {
+  const {
+    signal,
+    timeoutMs,
+    retries = 0,
+    backoff = 0,
+    retryIf = () => true,
+    onError
+  } = options;
+  for (let retry = 1; ; retry++) {
+    try {
+      const value = await attempt(fetcher, params, signal, timeoutMs);
+      return Data.of(value, params);
+    } catch (error: unknown) {
+      const aborted =
+        error instanceof ResourceRunError &&
+        error.reason === "aborted";
+      if (aborted || retry > retries || !retryIf(error, retry)) {
+        return fromError(error, params, onError);
+      }
+      try {
+        await sleep(
+          typeof backoff === "function"
+            ? backoff(retry, error)
+            : backoff,
+          signal
+        );
+      } catch (abort: unknown) {
+        return fromError(abort, params, onError);
+      }
+    }
+  }
+};
+
+/**
+ * Extracts the `Data` value type of a Resource type.
+ * @typeParam R - A Resource type.
+ */
+export type ResourceValue<R> =
+  R extends Data<infer T, any>
+    ? T
+    : R extends Query<any, infer T>
+      ? T
+      : never;
+
+/**
+ * Extracts the `Failure` error type of a Resource type.
+ * @typeParam R - A Resource type.
+ */
+export type ResourceError<R> =
+  R extends Failure<any, infer E> ? E : never;
+
+/**
+ * Collapses a list of Resources into one, using the precedence
+ * `Failure` > `Query` > `Empty` > `Data`. All Failure errors are kept, in input order.
+ * A resulting `Query` keeps a stale `Data` when every input is `Data` or a refreshing `Query`.
+ */
+const collect = <Q>(
+  resources: Resource<unknown, unknown, unknown>[],
+  params?: Q
+): Resource<unknown[], Q, unknown> => {
+  const failures = resources.filter(
+    (resource) => resource.type === ResourceTypes.Failure
+  );
+  if (failures.length > 0) {
+    return Failure.of(
+      failures.flatMap((failure) => failure.messages),
+      params
+    );
+  }
+  if (
+    resources.some(
+      (resource) => resource.type === ResourceTypes.Query
+    )
+  ) {
+    const stale = resources.map((resource) =>
+      resource.type === ResourceTypes.Query
+        ? resource.stale
+        : resource
+    );
+    return stale.every(
+      (resource) => resource?.type === ResourceTypes.Data
+    )
+      ? Query.of(
+          params,
+          Data.of(
+            stale.map(
+              (resource) => (resource as Data<unknown, unknown>).value
+            ),
+            params
+          )
+        )
+      : Query.of(params);
+  }
+  if (
+    resources.some(
+      (resource) => resource.type === ResourceTypes.Empty
+    )
+  ) {
+    return Empty.of(params);
+  }
+  return Data.of(
+    resources.map(
+      (resource) => (resource as Data<unknown, unknown>).value
+    ),
+    params
   );
+};
+
+/**
+ * Combines a tuple or array of Resources into a single Resource of a tuple of values.
+ * Precedence: any `Failure` wins (errors from every Failure are concatenated in order),
+ * then any `Query`, then any `Empty`; only when all are `Data` is the result `Data`.
+ * @param resources - The Resources to combine.
+ * @param params - Optional parameters for the combined Resource.
+ *
+ * @example
+ * const result = Resource.sequence([Resource.Data(1), Resource.Data('a')]); // Data<[number, string]>
+ * const failed = Resource.sequence([Resource.Failure(['a']), Resource.Query(), Resource.Failure(['b'])]);
+ * // Failure<['a', 'b']>
+ */
+export const sequence = <
+  const Rs extends readonly Resource<any, any, any>[],
+  Q = undefined
+>(
+  resources: Rs,
+  params?: Q
+): Resource<
+  { -readonly [K in keyof Rs]: ResourceValue<Rs[K]> },
+  Q,
+  ResourceError<Rs[number]>
+> =>
+  collect([...resources], params) as Resource<
+    { -readonly [K in keyof Rs]: ResourceValue<Rs[K]> },
+    Q,
+    ResourceError<Rs[number]>
+  >;
+
+/**
+ * Combines a record of Resources into a single Resource of a record of values.
+ * Follows the same precedence and error aggregation as `sequence`.
+ * @param resources - Record of Resources to combine.
+ * @param params - Optional parameters for the combined Resource.
+ *
+ * @example
+ * const dashboard = Resource.combine({ user, settings, prefs });
+ * // Data<{ user: User; settings: Settings; prefs: Prefs }> once all three are Data
+ */
+export const combine = <
+  Rs extends Record<string, Resource<any, any, any>>,
+  Q = undefined
+>(
+  resources: Rs,
+  params?: Q
+): Resource<
+  { [K in keyof Rs]: ResourceValue<Rs[K]> },
+  Q,
+  ResourceError<Rs[keyof Rs]>
+> => {
+  const keys = Object.keys(resources);
+  return collect(
+    keys.map((key) => resources[key]),
+    params
+  ).map((values) =>
+    Object.fromEntries(keys.map((key, index) => [key, values[index]]))
+  ) as Resource<
+    { [K in keyof Rs]: ResourceValue<Rs[K]> },
+    Q,
+    ResourceError<Rs[keyof Rs]>
+  >;
+};
+
+/**
+ * Maps every item to a Resource and combines the results like `sequence`.
+ * @param items - The items to traverse.
+ * @param fn - Function returning a Resource for each item.
+ * @param params - Optional parameters for the combined Resource.
+ *
+ * @example
+ * const users = Resource.traverse(ids, id => cache.get({ id })); // Resource<User[]>
+ */
+export const traverse = <A, B, E = string, Q = undefined>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Resource<B, any, E>,
+  params?: Q
+): Resource<B[], Q, E> =>
+  collect(items.map(fn), params) as Resource<B[], Q, E>;
+
+/**
+ * Plain-object form of a Resource, as produced by `toJSON` and accepted by `fromJSON`.
+ * @typeParam T - The type of the data in `Data` state.
+ * @typeParam Q - The type of optional parameters.
+ * @typeParam E - The type of the errors in `Failure` state.
+ */
+export type ResourceJSON<T, Q, E = string> = {
+  [JSON_TAG]: "Resource";
+} & (
+  | DataJSON<T, Q>
+  | {
+      type: ResourceTypes.Query;
+      params?: Q;
+      stale?: DataJSON<T, Q>;
+      meta?: ResourceMeta;
+      progress?: ResourceProgress;
+    }
+  | { type: ResourceTypes.Empty; params?: Q; meta?: ResourceMeta }
+  | {
+      type: ResourceTypes.Failure;
+      messages: E[];
+      params?: Q;
+      meta?: ResourceMeta;
+    }
+);
+
+type DataJSON<T, Q> = {
+  type: ResourceTypes.Data;
+  value: T;
+  params?: Q;
+  meta?: ResourceMeta;
+};
+
+const dataToJSON = <T, Q>(data: Data<T, Q>): DataJSON<T, Q> => ({
+  type: data.type,
+  value: data.value,
+  params: data.params,
+  meta: data.meta
+});
+
+/**
+ * Converts a Resource into a plain object that survives `JSON.stringify`,
+ * `structuredClone`, `postMessage` or redux-persist. The object is tagged with
+ * `"@@phantom-stories": "Resource"`, so `reviver` leaves look-alike objects alone.
+ * @param resource - The Resource to convert.
+ *
+ * @example
+ * const json = Resource.toJSON(Resource.Data(42, { id: '123' }));
+ * // { '@@phantom-stories': 'Resource', type: 'Data', value: 42, params: { id: '123' } }
+ */
+export const toJSON = <T, Q, E = string>(
+  resource: Resource<T, Q, E>
+): ResourceJSON<T, Q, E> => {
+  switch (resource.type) {
+    case ResourceTypes.Data:
+      return { [JSON_TAG]: "Resource", ...dataToJSON(resource) };
+    case ResourceTypes.Query:
+      return {
+        [JSON_TAG]: "Resource",
+        type: resource.type,
+        params: resource.params,
+        stale: resource.stale && dataToJSON(resource.stale),
+        meta: resource.meta,
+        progress: resource.progress
+      };
+    case ResourceTypes.Empty:
+      return {
+        [JSON_TAG]: "Resource",
+        type: resource.type,
+        params: resource.params,
+        meta: resource.meta
+      };
+    case ResourceTypes.Failure:
+      return {
+        [JSON_TAG]: "Resource",
+        type: resource.type,
+        messages: resource.messages,
+        params: resource.params,
+        meta: resource.meta
+      };
+  }
+};
+
+/**
+ * Checks the fields of a serialized Resource, with or without its tag.
+ */
+const hasResourceShape = (value: unknown): boolean => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const json = value as Record<string, unknown>;
+  switch (json.type) {
+    // JSON.stringify drops an undefined value, so it may be missing
+    case ResourceTypes.Data:
+      return true;
+    case ResourceTypes.Query:
+      return (
+        json.stale === undefined ||
+        (hasResourceShape(json.stale) &&
+          (json.stale as Record<string, unknown>).type ===
+            ResourceTypes.Data)
+      );
+    case ResourceTypes.Empty:
+      return true;
+    case ResourceTypes.Failure:
+      return Array.isArray(json.messages);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks whether a value is a serialized Resource: an object tagged by `toJSON`
+ * with the fields of its variant.
+ * @param value - The value to check.
+ */
+export const isResourceJSON = (
+  value: unknown
+): value is ResourceJSON<unknown, unknown, unknown> =>
+  hasResourceShape(value) &&
+  (value as Record<string, unknown>)[JSON_TAG] === "Resource";
+
+/**
+ * Rebuilds a Resource instance from its plain-object form.
+ * Unlike `reviver`, it does not require the tag, since the caller knows what `json` is.
+ * @param json - A value produced by `toJSON` (or a Resource that lost its prototype).
+ * @throws TypeError if `json` does not have the fields of a Resource.
+ *
+ * @example
+ * const resource = Resource.fromJSON<number, { id: string }>(JSON.parse(text));
+ * resource.map(x => x + 1);
+ */
+export const fromJSON = <T, Q, E = string>(
+  json: ResourceJSON<T, Q, E>
+): Resource<T, Q, E> => {
+  if (!hasResourceShape(json)) {
+    throw new TypeError(
+      `Cannot rebuild a Resource from ${JSON.stringify(json)}`
+    );
+  }
+  switch (json.type) {
+    case ResourceTypes.Data:
+      return Data.of(json.value, json.params, json.meta);
+    case ResourceTypes.Query:
+      return Query.of(
+        json.params,
+        json.stale &&
+          Data.of(
+            json.stale.value,
+            json.stale.params,
+            json.stale.meta
+          ),
+        json.meta,
+        json.progress
+      );
+    case ResourceTypes.Empty:
+      return Empty.of(json.params, json.meta);
+    case ResourceTypes.Failure:
+      return Failure.of(json.messages, json.params, json.meta);
+  }
+};
+
+/**
+ * `JSON.parse` reviver that turns serialized Resources back into instances.
+ * Only objects tagged by `toJSON` (also used by `JSON.stringify` on instances) are revived,
+ * so other objects with a `type` field, such as Redux actions, are left alone.
+ *
+ * @example
+ * const state = JSON.parse(persisted, Resource.reviver);
+ * state.user.matchWith({ ... });
+ */
+export const reviver = (_key: string, value: unknown): unknown =>
+  isResourceJSON(value) ? fromJSON(value) : value;
+
+/**
+ * Serializability check for Redux Toolkit's serializable middleware, accepting
+ * plain values and Resource instances (whose fields are then checked in turn).
+ * @param value - The value to check.
+ *
+ * @example
+ * configureStore({
+ *   reducer,
+ *   middleware: getDefaultMiddleware =>
+ *     getDefaultMiddleware({
+ *       serializableCheck: { isSerializable: Resource.isSerializable }
+ *     })
+ * });
+ */
+export const isSerializable = (value: unknown): boolean =>
+  isPlain(value) ||
+  value instanceof Data ||
+  value instanceof Query ||
+  value instanceof Empty ||
+  value instanceof Failure;
+
+/**
+ * Builds a stable string key for Resource params: objects are serialized with
+ * sorted keys, so `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` share a key.
+ * @param params - The params to key.
+ *
+ * @example
+ * Resource.paramsKey({ page: 1, filter: 'open' }); // '{"filter":"open","page":1}'
+ */
+export const paramsKey = (params: unknown): string =>
+  JSON.stringify(params, (_key, value: unknown) =>
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [
+              key,
+              (value as Record<string, unknown>)[key]
+            ])
+        )
+      : value
+  ) ?? String(params);
 
 /**
  * Resource utilities and constructors.
@@ -573,7 +1589,23 @@ export const Resource = {
   isQuery,
   isFailure,
   isEmpty,
+  isRefreshing,
+  isStale,
+  expire,
   overPromise,
+  overProgress,
+  run,
+  fromError,
+  fromValidation,
+  sequence,
+  combine,
+  traverse,
+  toJSON,
+  fromJSON,
+  isResourceJSON,
+  reviver,
+  isSerializable,
+  paramsKey,
   hasInstance
 };
 
@@ -1,4 +1,6 @@
 import { Validation, Passing, Failing, isPassing, isFailing } from "./Validation";
+import { ValidationJSON } from "./Validation";
+import { Validator } from "../validators/Validator";
 
 // Utility functions
 const id = <T>(x: T): T => x;
@@ -172,3 +174,471 @@ describe("Validation", () => {
     });
   });
 });
+
+describe("JSON serialization", () => {
+  const passing = Validation.Passing({ name: "Jane" });
+  const failing = Validation.Failing(["Required", "Too short"]);
+
+  test("toJSON produces plain objects with the type discriminator", () => {
+    expect(Validation.toJSON(passing)).toEqual({
+      "@@phantom-stories": "Validation",
+      type: "Passing",
+      value: { name: "Jane" }
+    });
+    expect(Validation.toJSON(failing)).toEqual({
+      "@@phantom-stories": "Validation",
+      type: "Failing",
+      messages: ["Required", "Too short"],
+      errors: [
+        { path: [], code: "invalid", message: "Required" },
+        { path: [], code: "invalid", message: "Too short" }
+      ]
+    });
+  });
+
+  test("fromJSON round-trips both variants", () => {
+    const revivedPassing = Validation.fromJSON(
+      JSON.parse(JSON.stringify(Validation.toJSON(passing)))
+    );
+    const revivedFailing = Validation.fromJSON(
+      JSON.parse(JSON.stringify(Validation.toJSON(failing)))
+    );
+    expect(revivedPassing).toBeInstanceOf(Passing);
+    expect(revivedPassing).toEqual(passing);
+    expect(revivedFailing).toBeInstanceOf(Failing);
+    expect(revivedFailing).toEqual(failing);
+  });
+
+  test("fromJSON rejects values that are not Validations", () => {
+    expect(() =>
+      Validation.fromJSON({
+        type: "Failing"
+      } as unknown as ValidationJSON<number>)
+    ).toThrow(TypeError);
+  });
+
+  test("fromJSON accepts untagged Validations", () => {
+    const revived = Validation.fromJSON(
+      JSON.parse('{"type":"Failing","messages":["Required"]}')
+    );
+    expect(revived).toEqual(Validation.Failing(["Required"]));
+  });
+
+  test("reviver rehydrates nested Validations within JSON.parse", () => {
+    const form = { name: passing, password: failing };
+    const revived = JSON.parse(
+      JSON.stringify(form),
+      Validation.reviver
+    );
+    expect(revived.name).toBeInstanceOf(Passing);
+    expect(revived.password).toBeInstanceOf(Failing);
+  });
+
+  test("undefined values survive the JSON round-trip", () => {
+    const empty = Validator.optional(Validator.minLength(3))("");
+    const text = JSON.stringify({ nickname: empty });
+    expect(JSON.parse(text, Validation.reviver).nickname).toEqual(
+      Passing.of(undefined)
+    );
+    expect(
+      Validation.fromJSON(JSON.parse(JSON.stringify(empty)))
+    ).toEqual(empty);
+  });
+
+  test("reviver leaves untagged look-alike objects alone", () => {
+    const text = '{"user":{"type":"Passing","value":"Jane"}}';
+    expect(
+      JSON.parse(text, Validation.reviver).user
+    ).not.toBeInstanceOf(Passing);
+  });
+
+  test("isSerializable accepts plain values and Validation instances", () => {
+    expect(Validation.isSerializable(passing)).toBe(true);
+    expect(Validation.isSerializable(failing)).toBe(true);
+    expect(Validation.isSerializable([1, { a: "b" }])).toBe(true);
+    expect(Validation.isSerializable(new Date())).toBe(false);
+  });
+});
+
+describe("Structured errors", () => {
+  const nameRequired = {
+    path: ["name"],
+    code: "required",
+    message: "Name is required"
+  };
+  const zipPattern = {
+    path: ["zip"],
+    code: "pattern",
+    message: "Invalid zip code",
+    params: { pattern: "^\\d{5}$" }
+  };
+
+  test("plain messages become root errors with the default code", () => {
+    const failing = Validation.Failing(["Required"]);
+    expect(failing.errors).toEqual([
+      { path: [], code: "invalid", message: "Required" }
+    ]);
+    expect(failing.messages).toEqual(["Required"]);
+  });
+
+  test("concat keeps structured errors in order", () => {
+    const result = Validation.Failing([nameRequired]).concat(
+      Validation.Failing([zipPattern])
+    );
+    expect(isFailing(result) && result.errors).toEqual([
+      nameRequired,
+      zipPattern
+    ]);
+    expect(isFailing(result) && result.messages).toEqual([
+      "Name is required",
+      "Invalid zip code"
+    ]);
+  });
+
+  test("prefix nests error paths and leaves Passing unchanged", () => {
+    const failing = Validation.Failing([zipPattern, "Invalid"]);
+    const nested = failing.prefix("addresses", 0);
+    expect(
+      isFailing(nested) && nested.errors.map((e) => e.path)
+    ).toEqual([
+      ["addresses", 0, "zip"],
+      ["addresses", 0]
+    ]);
+    const passing = Validation.Passing(1);
+    expect(passing.prefix("a")).toBe(passing);
+  });
+
+  test("groupByPath groups errors by formatted path", () => {
+    const failing = Validation.Failing([
+      nameRequired,
+      zipPattern,
+      { ...nameRequired, code: "minLength", message: "Too short" }
+    ]).prefix("user");
+    const groups = Validation.groupByPath(failing);
+    expect(Object.keys(groups)).toEqual(["user.name", "user.zip"]);
+    expect(groups["user.name"].map((e) => e.code)).toEqual([
+      "required",
+      "minLength"
+    ]);
+    expect(Validation.groupByPath(Validation.Passing(1))).toEqual({});
+  });
+
+  test("toMessages flattens errors with an optional format", () => {
+    const failing = Validation.Failing([nameRequired, zipPattern]);
+    expect(Validation.toMessages(failing)).toEqual([
+      "Name is required",
+      "Invalid zip code"
+    ]);
+    expect(
+      Validation.toMessages(
+        failing,
+        (e) => `${Validation.formatPath(e.path)}: ${e.message}`
+      )
+    ).toEqual(["name: Name is required", "zip: Invalid zip code"]);
+    expect(Validation.toMessages(Validation.Passing(1))).toEqual([]);
+  });
+
+  test("JSON round-trip keeps structured errors", () => {
+    const failing = Validation.Failing([zipPattern]).prefix(
+      "address"
+    );
+    const revived = Validation.fromJSON(
+      JSON.parse(JSON.stringify(Validation.toJSON(failing)))
+    );
+    expect(revived).toEqual(failing);
+  });
+});
+
+describe("Struct validation", () => {
+  const settings = Validation.struct({
+    name: Validator.required<string>("Name is required"),
+    age: Validator.pipe(
+      Validator.required<number>(),
+      Validator.integer(),
+      Validator.min(18)
+    ),
+    newsletter: Validator.optional(Validator.email()),
+    address: Validation.struct({
+      city: Validator.required<string>(),
+      zip: Validator.pattern(/^\d{5}$/, "Invalid zip code")
+    })
+  });
+
+  test("passes with the fully typed object", () => {
+    const result = settings({
+      name: "Jane",
+      age: 30,
+      newsletter: "",
+      address: { city: "Asunción", zip: "12345" }
+    });
+    expect(isPassing(result)).toBe(true);
+    if (isPassing(result)) {
+      const value: {
+        name: string;
+        age: number;
+        newsletter: string | undefined;
+        address: { city: string; zip: string };
+      } = result.value;
+      expect(value).toEqual({
+        name: "Jane",
+        age: 30,
+        newsletter: undefined,
+        address: { city: "Asunción", zip: "12345" }
+      });
+    }
+  });
+
+  test("accumulates the errors of every field with their paths", () => {
+    const result = settings({
+      name: "",
+      age: 12,
+      newsletter: "jane",
+      address: { city: "Asunción", zip: "abc" }
+    });
+    expect(isFailing(result) && result.errors).toEqual([
+      {
+        path: ["name"],
+        code: "required",
+        message: "Name is required"
+      },
+      {
+        path: ["age"],
+        code: "min",
+        message: "Must be at least 18",
+        params: { min: 18 }
+      },
+      {
+        path: ["newsletter"],
+        code: "email",
+        message: "Must be a valid email address"
+      },
+      {
+        path: ["address", "zip"],
+        code: "pattern",
+        message: "Invalid zip code",
+        params: { pattern: "^\\d{5}$" }
+      }
+    ]);
+  });
+
+  test("validates a missing nested object as empty", () => {
+    const address = Validation.struct({
+      city: Validator.required<string>()
+    });
+    const result = Validation.struct({ address })({
+      address: undefined as unknown as { city: string }
+    });
+    expect(isFailing(result) && result.errors[0].path).toEqual([
+      "address",
+      "city"
+    ]);
+  });
+
+  test("drops keys without a validator", () => {
+    const result = Validation.struct({ a: Validator.min(0) })({
+      a: 1,
+      b: 2
+    } as { a: number });
+    expect(result).toEqual(Passing.of({ a: 1 }));
+  });
+});
+
+describe("Applicative", () => {
+  const name = Validation.Passing("Jane");
+  const age = Validation.Passing(30);
+  const badName = Validation.Failing(["Bad name"]);
+  const badAge = Validation.Failing(["Bad age"]);
+
+  test("ap applies a wrapped function", () => {
+    const fn = Validation.Passing((n: string) => (a: number) => ({
+      n,
+      a
+    }));
+    expect(
+      fn.ap<string, (a: number) => object>(name).ap(age)
+    ).toEqual(Passing.of({ n: "Jane", a: 30 }));
+  });
+
+  test("ap accumulates errors in order", () => {
+    const fn = Validation.Passing((n: string) => (a: number) => ({
+      n,
+      a
+    }));
+    const result = fn
+      .ap<string, (a: number) => object>(badName)
+      .ap(badAge);
+    expect(isFailing(result) && result.messages).toEqual([
+      "Bad name",
+      "Bad age"
+    ]);
+  });
+
+  test("ap on a Passing without a function fails", () => {
+    expect(isFailing(Validation.Passing(1).ap(age))).toBe(true);
+  });
+
+  test("applicative identity and homomorphism laws", () => {
+    expect(Validation.of(id).ap(age)).toEqual(age);
+    const f = (x: number) => x + 1;
+    expect(Validation.of(f).ap(Validation.of(1))).toEqual(
+      Validation.of(f(1))
+    );
+    expect(badName.of(1)).toEqual(Passing.of(1));
+  });
+
+  test("lift combines Validations with full inference", () => {
+    const toUser = Validation.lift((n: string, a: number) => ({
+      name: n,
+      age: a
+    }));
+    const user: Validation<{ name: string; age: number }> = toUser(
+      name,
+      age
+    );
+    expect(user).toEqual(Passing.of({ name: "Jane", age: 30 }));
+    const failing = toUser(badName, badAge);
+    expect(isFailing(failing) && failing.messages).toEqual([
+      "Bad name",
+      "Bad age"
+    ]);
+  });
+
+  test("sequence combines tuples with precise types", () => {
+    const result: Validation<[string, number]> = Validation.sequence([
+      name,
+      age
+    ]);
+    expect(result).toEqual(Passing.of(["Jane", 30]));
+    expect(Validation.sequence([])).toEqual(Passing.of([]));
+    const failing = Validation.sequence([badName, age, badAge]);
+    expect(isFailing(failing) && failing.messages).toEqual([
+      "Bad name",
+      "Bad age"
+    ]);
+  });
+
+  test("traverse validates every item", () => {
+    const positive = (n: number, index: number) =>
+      n > 0
+        ? Validation.Passing(n)
+        : Validation.Failing(["Must be positive"]).prefix(index);
+    expect(Validation.traverse([1, 2], positive)).toEqual(
+      Passing.of([1, 2])
+    );
+    const result = Validation.traverse([1, -1, 0], positive);
+    expect(
+      isFailing(result) && result.errors.map((e) => e.path)
+    ).toEqual([[1], [2]]);
+  });
+});
+
+describe("Warnings", () => {
+  const failing = Validation.Failing(["error"]);
+  const weak = {
+    path: [],
+    code: "weak",
+    message: "Password is weak"
+  };
+
+  test("Passing carries warnings, normalizing plain messages", () => {
+    const passing = Validation.Passing("hunter2", ["Looks familiar"]);
+    expect(passing.warnings).toEqual([
+      { path: [], code: "invalid", message: "Looks familiar" }
+    ]);
+    expect(Validation.Passing(1).warnings).toEqual([]);
+    expect(
+      passing.withWarnings([weak]).warnings.map((w) => w.code)
+    ).toEqual(["invalid", "weak"]);
+  });
+
+  test("map, chain and concat keep warnings in order", () => {
+    const first = Validation.Passing(1, ["first"]);
+    const second = Validation.Passing(2, ["second"]);
+    expect(first.map((x) => x + 1)).toEqual(
+      Validation.Passing(2, ["first"])
+    );
+    expect(first.chain(() => second)).toEqual(
+      Validation.Passing(2, ["first", "second"])
+    );
+    expect(first.concat(second)).toEqual(
+      Validation.Passing(2, ["first", "second"])
+    );
+    expect(first.concat(failing)).toBe(failing);
+    expect(first.chain(() => failing)).toBe(failing);
+  });
+
+  test("ap, sequence and struct accumulate warnings", () => {
+    const add = Validation.Passing(
+      (a: number) => (b: number) => a + b,
+      ["fn"]
+    );
+    expect(
+      add
+        .ap<
+          number,
+          (b: number) => number
+        >(Validation.Passing(1, ["a"]))
+        .ap(Validation.Passing(2, ["b"]))
+    ).toEqual(Validation.Passing(3, ["fn", "a", "b"]));
+    expect(
+      Validation.sequence([
+        Validation.Passing(1, ["a"]),
+        Validation.Passing(2, ["b"])
+      ])
+    ).toEqual(Validation.Passing([1, 2], ["a", "b"]));
+    const form = Validation.struct({
+      password: Validator.warn(
+        Validator.minLength<string>(12, "Password is weak")
+      )
+    });
+    const result = form({ password: "hunter22" });
+    expect(isPassing(result) && result.warnings).toEqual([
+      {
+        path: ["password"],
+        code: "minLength",
+        message: "Password is weak",
+        params: { min: 12 }
+      }
+    ]);
+  });
+
+  test("Validator.warn never blocks", () => {
+    const password = Validator.and(
+      Validator.minLength<string>(8),
+      Validator.warn(
+        Validator.pattern(/[^a-z0-9]/i, "Password is weak")
+      )
+    );
+    const result = password("abcdefgh");
+    expect(isPassing(result) && result.warnings[0].message).toBe(
+      "Password is weak"
+    );
+    expect(isFailing(password("abc"))).toBe(true);
+  });
+
+  test("matchWith patterns stay exhaustive over two variants", () => {
+    const passing = Validation.Passing(1, [weak]);
+    expect(
+      passing.matchWith({
+        Passing: ({ warnings }) => warnings.length,
+        Failing: () => -1
+      })
+    ).toBe(1);
+  });
+
+  test("JSON round-trip keeps warnings", () => {
+    const passing = Validation.Passing("x", [weak]).prefix(
+      "password"
+    );
+    const json = Validation.toJSON(passing);
+    expect(json).toEqual({
+      "@@phantom-stories": "Validation",
+      type: "Passing",
+      value: "x",
+      warnings: [{ ...weak, path: ["password"] }]
+    });
+    expect(
+      Validation.fromJSON(JSON.parse(JSON.stringify(json)))
+    ).toEqual(passing);
+  });
+});
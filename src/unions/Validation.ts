@@ -1,8 +1,16 @@
+import { isPlain, JSON_TAG } from "./plain";
+import type { Validator } from "../validators/Validator";
+import {
+  compileJSONSchema,
+  toJSONPointer,
+  JSONSchemaDefinition
+} from "../validators/JSONSchema";
+import { Data, Failure, fromValidation } from "./Resource";
 
 /**
  * A sum type for validating data in a functional programming style.
  * Represents two states: passing (`Passing`) with a value, or failing (`Failing`) with error messages.
- * Supports functor (`map`), monad (`chain`, `of`), and semigroup (`concat`) operations for declarative validation.
+ * Supports functor (`map`), applicative (`ap`, `lift`), monad (`chain`, `of`), and semigroup (`concat`) operations for declarative validation.
  * Designed for use with Redux Toolkit, Redux Observables, and React.
  *
  * @typeParam T - The type of the data in `Passing` state.
@@ -30,6 +38,34 @@ export enum ValidationTypes {
  */
 export type Validation<T> = Passing<T> | Failing;
 
+/**
+ * Location of a validated field, as object keys and array indexes from the root value.
+ * An empty path refers to the root value itself.
+ */
+export type ValidationPath = (string | number)[];
+
+/**
+ * A structured validation error, locating the failing field and identifying the broken rule.
+ *
+ * @example
+ * const error: ValidationError = {
+ *   path: ['address', 'zip'],
+ *   code: 'pattern',
+ *   message: 'Zip code must have 5 digits',
+ *   params: { pattern: '^\\d{5}$' }
+ * };
+ */
+export interface ValidationError {
+  /** Location of the failing field. */
+  path: ValidationPath;
+  /** Identifier of the broken rule, such as `required` or `minLength`. */
+  code: string;
+  /** Human-readable description of the error. */
+  message: string;
+  /** Values describing the rule, such as `{ min: 8 }`. */
+  params?: Record<string, unknown>;
+}
+
 /**
  * Pattern for matching Validation states, used with `matchWith`.
  * @typeParam T - The type of the data in `Passing` state.
@@ -46,11 +82,11 @@ export interface ValidationPattern<T, R> {
 type PartialPattern<T> = Partial<ValidationPattern<T, void>>;
 
 /**
- * Interface for Validation methods, implementing functor, monad, and semigroup operations.
+ * Interface for Validation methods, implementing functor, applicative, monad, and semigroup operations.
  */
 export interface ValidationMethods<T> {
   /**
-   * Transforms the `Passing` value using a function, preserving the Validation structure.
+   * Transforms the `Passing` value using a function, preserving the Validation structure and warnings.
    * Acts as a functor operation, similar to `Array.map`. `Failing` returns unchanged.
    *
    * @param fn - Function to transform the `Passing` value.
@@ -105,7 +141,8 @@ export interface ValidationMethods<T> {
 
   /**
    * Combines this Validation with another, following semigroup rules.
-   * Returns `Passing` if both are `Passing`, otherwise returns a `Failing` with concatenated messages.
+   * Returns `Passing` if both are `Passing` (with the value of `validation` and the warnings of both),
+   * otherwise returns a `Failing` with concatenated messages.
    *
    * @param validation - Another Validation to combine with.
    * @returns A new Validation combining the states.
@@ -116,22 +153,88 @@ export interface ValidationMethods<T> {
    * const result = passing.concat(failing); // Failing<['error']>
    */
   concat: <R>(validation: Validation<R>) => Validation<T | R>;
+
+  /**
+   * Prepends path segments to the paths of every error, for nesting a field validation
+   * into a larger one. `Passing` returns unchanged.
+   *
+   * @param path - The segments locating this Validation in its parent value.
+   * @returns A Validation whose errors are located relative to the parent.
+   *
+   * @example
+   * const zip = Validation.Failing([{ path: [], code: 'required', message: 'Required' }]);
+   * zip.prefix('address', 'zip').errors[0].path; // ['address', 'zip']
+   */
+  prefix: (...path: ValidationPath) => Validation<T>;
+
+  /**
+   * Applies a function wrapped in this Validation (`Passing` variant) to a value wrapped in another Validation.
+   * Unlike `chain`, errors accumulate: when both are `Failing`, the errors of this Validation come first.
+   * Standard definition: `f (a -> b) -> f a -> f b`
+   *
+   * @param validation - Validation containing the value to apply the function to.
+   * @returns A `Passing` with the result, or a `Failing` with the errors of both sides.
+   *
+   * @example
+   * const fn = Validation.Passing((name: string) => (age: number) => ({ name, age }));
+   * fn.ap(Validation.Passing('Jane')).ap(Validation.Passing(30)); // Passing<{ name: 'Jane', age: 30 }>
+   * fn.ap(Validation.Failing(['Bad name'])).ap(Validation.Failing(['Bad age'])); // Failing<['Bad name', 'Bad age']>
+   */
+  ap: <A, B>(validation: Validation<A>) => Validation<B>;
+
+  /**
+   * Lifts a value into a `Passing` Validation.
+   * Acts as the applicative `pure` operation.
+   *
+   * @param value - Value to lift into `Passing`.
+   *
+   * @example
+   * Validation.Failing(['error']).of(42); // Passing<42>
+   */
+  of: <R>(value: R) => Passing<R>;
 }
 
 /**
- * Represents a failing validation state with error messages.
+ * Code given to errors created from plain messages.
+ */
+export const DEFAULT_ERROR_CODE = "invalid";
+
+const toError = (error: string | ValidationError): ValidationError =>
+  typeof error === "string"
+    ? { path: [], code: DEFAULT_ERROR_CODE, message: error }
+    : error;
+
+const prefixErrors = (
+  errors: ValidationError[],
+  path: ValidationPath
+): ValidationError[] =>
+  errors.map((error) => ({
+    ...error,
+    path: [...path, ...error.path]
+  }));
+
+/**
+ * Represents a failing validation state with structured errors.
+ * Plain messages are accepted too, as errors at the root path with the `invalid` code.
  */
 export class Failing implements ValidationMethods<never> {
   readonly type = ValidationTypes.Failing;
+  /** The structured errors, in the order they were produced. */
+  readonly errors: ValidationError[];
+  /** The message of every error, in the order they were produced. */
+  readonly messages: string[];
 
-  constructor(readonly messages: string[]) {}
+  constructor(errors: (string | ValidationError)[]) {
+    this.errors = errors.map(toError);
+    this.messages = this.errors.map((error) => error.message);
+  }
 
   /**
    * Creates a new `Failing` Validation.
-   * @param messages - Array of error messages.
+   * @param errors - Array of error messages or structured errors.
    */
-  static of(messages: string[]): Failing {
-    return new Failing(messages);
+  static of(errors: (string | ValidationError)[]): Failing {
+    return new Failing(errors);
   }
 
   public map<R>(_fn: (x: never) => R): Failing {
@@ -154,35 +257,72 @@ export class Failing implements ValidationMethods<never> {
 
   public concat<R>(validation: Validation<R>): Validation<R> {
     return isFailing(validation)
-      ? Failing.of([...this.messages, ...validation.messages])
+      ? Failing.of([...this.errors, ...validation.errors])
       : this;
   }
+
+  public prefix(...path: ValidationPath): Failing {
+    return Failing.of(prefixErrors(this.errors, path));
+  }
+
+  public ap<A, B>(validation: Validation<A>): Validation<B> {
+    return this.concat(validation) as Failing;
+  }
+
+  // Used by JSON.stringify, so the output is tagged for `reviver`
+  public toJSON(): ValidationJSON<never> {
+    return toJSON(this);
+  }
+
+  public of<R>(value: R): Passing<R> {
+    return Passing.of(value);
+  }
 }
 
 /**
- * Represents a passing validation state with a value.
+ * Represents a passing validation state with a value, and any non-blocking warnings.
+ * Warnings are structured like errors and accumulate through `map`, `chain`, `concat` and `ap`.
  * @typeParam T - The type of the data.
  */
 export class Passing<T> implements ValidationMethods<T> {
   readonly type = ValidationTypes.Passing;
 
-  constructor(readonly value: T) {}
+  /** Non-blocking warnings, such as a weak but allowed password. */
+  readonly warnings: ValidationError[];
+
+  constructor(
+    readonly value: T,
+    warnings: (string | ValidationError)[] = []
+  ) {
+    this.warnings = warnings.map(toError);
+  }
 
   /**
    * Creates a new `Passing` Validation.
    * @param value - The validated value.
+   * @param warnings - Optional array of warning messages or structured warnings.
    */
-  static of<T>(value: T): Passing<T> {
-    return new Passing(value);
+  static of<T>(
+    value: T,
+    warnings: (string | ValidationError)[] = []
+  ): Passing<T> {
+    return new Passing(value, warnings);
   }
 
   public map<R>(fn: (x: T) => R): Passing<R> {
     const result = fn(this.value);
-    return Passing.of(result);
+    return Passing.of(result, this.warnings);
   }
 
+  // Warnings of this Validation come before the warnings of the result
   public chain<R>(fn: (x: Passing<T>) => Validation<R>): Validation<R> {
-    return fn(this);
+    const result = fn(this);
+    return isPassing(result) && this.warnings.length > 0
+      ? Passing.of(result.value, [
+          ...this.warnings,
+          ...result.warnings
+        ])
+      : result;
   }
 
   public matchWith<R>(pattern: ValidationPattern<T, R>): R {
@@ -196,7 +336,50 @@ export class Passing<T> implements ValidationMethods<T> {
   }
 
   public concat<R>(validation: Validation<R>): Validation<R> {
-    return validation;
+    return isPassing(validation) && this.warnings.length > 0
+      ? Passing.of(validation.value, [
+          ...this.warnings,
+          ...validation.warnings
+        ])
+      : validation;
+  }
+
+  public prefix(...path: ValidationPath): Passing<T> {
+    return this.warnings.length > 0
+      ? Passing.of(this.value, prefixErrors(this.warnings, path))
+      : this;
+  }
+
+  public ap<A, B>(validation: Validation<A>): Validation<B> {
+    // Runtime check to ensure 'this' actually holds a function
+    if (typeof this.value !== "function") {
+      return Failing.of([
+        "Validation.ap called on Passing variant that does not contain a function"
+      ]);
+    }
+    return this.concat(validation.map(this.value as (a: A) => B));
+  }
+
+  /**
+   * Returns a `Passing` with the same value and additional warnings, after the existing ones.
+   * @param warnings - Array of warning messages or structured warnings.
+   *
+   * @example
+   * Validation.Passing('hunter2').withWarnings(['Password is weak']);
+   */
+  public withWarnings(
+    warnings: (string | ValidationError)[]
+  ): Passing<T> {
+    return Passing.of(this.value, [...this.warnings, ...warnings]);
+  }
+
+  // Used by JSON.stringify, so the output is tagged for `reviver`
+  public toJSON(): ValidationJSON<T> {
+    return toJSON(this);
+  }
+
+  public of<R>(value: R): Passing<R> {
+    return Passing.of(value);
   }
 }
 
@@ -225,6 +408,266 @@ export const isPassing = <T>(validation: Validation<T>): validation is Passing<T
 export const isFailing = <T>(validation: Validation<T>): validation is Failing =>
   validation.type === ValidationTypes.Failing;
 
+/**
+ * Formats a path as dot-separated segments, the field naming used by most form libraries.
+ * @param path - The path to format.
+ *
+ * @example
+ * formatPath(['items', 0, 'name']); // 'items.0.name'
+ */
+export const formatPath = (path: ValidationPath): string =>
+  path.join(".");
+
+/**
+ * Groups the errors of a Validation by their formatted path (see `formatPath`).
+ * Errors at the root path are grouped under `""`. `Passing` gives an empty record.
+ * @param validation - The Validation whose errors are grouped.
+ *
+ * @example
+ * const failing = Validation.Failing([
+ *   { path: ['name'], code: 'required', message: 'Name is required' },
+ *   { path: ['address', 'zip'], code: 'pattern', message: 'Invalid zip code' }
+ * ]);
+ * groupByPath(failing); // { name: [...], 'address.zip': [...] }
+ */
+export const groupByPath = <T>(
+  validation: Validation<T>
+): Record<string, ValidationError[]> =>
+  isFailing(validation)
+    ? validation.errors.reduce<Record<string, ValidationError[]>>(
+        (groups, error) => {
+          const key = formatPath(error.path);
+          groups[key] = [...(groups[key] ?? []), error];
+          return groups;
+        },
+        {}
+      )
+    : {};
+
+/**
+ * Flattens the errors of a Validation into strings, such as `FailingProps.messages`.
+ * `Passing` gives an empty array.
+ * @param validation - The Validation whose errors are flattened.
+ * @param format - Converts one error to a string; defaults to its message.
+ *
+ * @example
+ * toMessages(failing, (e) => `${formatPath(e.path)}: ${e.message}`);
+ * // ['name: Name is required', 'address.zip: Invalid zip code']
+ */
+export const toMessages = <T>(
+  validation: Validation<T>,
+  format: (error: ValidationError) => string = (error) =>
+    error.message
+): string[] =>
+  isFailing(validation) ? validation.errors.map(format) : [];
+
+/**
+ * Lifts a value into a `Passing` Validation.
+ * @param value - The value to lift.
+ */
+export const of = <T>(value: T): Passing<T> => Passing.of(value);
+
+/**
+ * Extracts the `Passing` value type of a Validation type.
+ * @typeParam V - A Validation type.
+ */
+export type ValidationValue<V> =
+  V extends Passing<infer T> ? T : never;
+
+// Collects the values and warnings of all Validations, or the errors of every Failing in input order
+const collect = (
+  validations: Validation<unknown>[]
+): Validation<unknown[]> => {
+  const errors = validations.flatMap((validation) =>
+    isFailing(validation) ? validation.errors : []
+  );
+  const passing = validations as Passing<unknown>[];
+  return errors.length > 0
+    ? Failing.of(errors)
+    : Passing.of(
+        passing.map(({ value }) => value),
+        passing.flatMap(({ warnings }) => warnings)
+      );
+};
+
+/**
+ * Combines an array or tuple of Validations into a Validation of their values.
+ * Fails with the errors of every `Failing`, merged in input order.
+ * @param validations - The Validations to combine.
+ *
+ * @example
+ * Validation.sequence([Validation.Passing('Jane'), Validation.Passing(30)]); // Passing<['Jane', 30]>, typed [string, number]
+ * Validation.sequence([Validation.Failing(['a']), Validation.Failing(['b'])]); // Failing<['a', 'b']>
+ */
+export const sequence = <const Vs extends readonly Validation<any>[]>(
+  validations: Vs
+): Validation<{
+  -readonly [K in keyof Vs]: ValidationValue<Vs[K]>;
+}> =>
+  collect([...validations]) as Validation<{
+    -readonly [K in keyof Vs]: ValidationValue<Vs[K]>;
+  }>;
+
+/**
+ * Validates every item and combines the results like `sequence`.
+ * Use `prefix` in `fn` to locate item errors by index.
+ * @param items - The items to validate.
+ * @param fn - Function returning a Validation for each item.
+ *
+ * @example
+ * const emails = Validation.traverse(inputs, (input, index) => Validator.email()(input).prefix(index));
+ */
+export const traverse = <A, B>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Validation<B>
+): Validation<B[]> => collect(items.map(fn)) as Validation<B[]>;
+
+/**
+ * Lifts a function of plain arguments into a function of Validations, accumulating
+ * the errors of every failing argument in order.
+ * @param fn - The function to lift.
+ *
+ * @example
+ * const toUser = Validation.lift((name: string, age: number) => ({ name, age }));
+ * toUser(validateName(name), validateAge(age)); // Validation<{ name: string; age: number }>
+ */
+export const lift =
+  <Args extends unknown[], R>(fn: (...args: Args) => R) =>
+  (
+    ...validations: { [K in keyof Args]: Validation<Args[K]> }
+  ): Validation<R> =>
+    collect(validations).map((args) => fn(...(args as Args)));
+
+/**
+ * Validators for the fields of an object, as accepted by `struct`.
+ */
+export type StructValidators = Record<string, Validator<any, any>>;
+
+/**
+ * The input object of a `struct` validator.
+ * @typeParam S - The field validators.
+ */
+export type StructInput<S extends StructValidators> = {
+  [K in keyof S]: S[K] extends Validator<infer I, any> ? I : never;
+};
+
+/**
+ * The validated object produced by a `struct` validator.
+ * @typeParam S - The field validators.
+ */
+export type StructOutput<S extends StructValidators> = {
+  [K in keyof S]: S[K] extends Validator<any, infer O> ? O : never;
+};
+
+/**
+ * Builds a validator for objects from validators for each field.
+ * Every field is validated, even after a failure, and errors are prefixed with the field
+ * key (see `prefix`), so nested structs produce paths such as `['address', 'zip']`.
+ * Passes with an object of the validated fields; keys without a validator are dropped.
+ * A missing input is validated as an empty object.
+ * @param validators - The validator of each field.
+ *
+ * @example
+ * const settings = Validation.struct({
+ *   name: Validator.required<string>(),
+ *   age: Validator.pipe(Validator.required<number>(), Validator.integer()),
+ *   address: Validation.struct({ zip: Validator.pattern(/^\d{5}$/) })
+ * });
+ * settings({ name: '', age: 1.5, address: { zip: 'abc' } });
+ * // Failing with errors at ['name'], ['age'] and ['address', 'zip']
+ */
+export const struct =
+  <S extends StructValidators>(
+    validators: S
+  ): Validator<StructInput<S>, StructOutput<S>> =>
+  (input) => {
+    const source = (input ?? {}) as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    const errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
+    Object.keys(validators).forEach((key) => {
+      validators[key](source[key])
+        .prefix(key)
+        .matchWith({
+          Passing: (passing) => {
+            output[key] = passing.value;
+            warnings.push(...passing.warnings);
+          },
+          Failing: (failing) => {
+            errors.push(...failing.errors);
+          }
+        });
+    });
+    return errors.length > 0
+      ? Failing.of(errors)
+      : Passing.of(output as StructOutput<S>, warnings);
+  };
+
+export { toJSONPointer };
+export type {
+  JSONSchema,
+  JSONSchemaDefinition,
+  JSONSchemaType
+} from "../validators/JSONSchema";
+
+/**
+ * Compiles a JSON Schema into a validator, so client forms can reuse the schemas
+ * published for request bodies. Supports `type`, `required`, `properties`, `items`,
+ * `enum`, `minimum`/`maximum` (and their exclusive forms), `minLength`/`maxLength`,
+ * `minItems`/`maxItems`, `pattern`, `format`, `oneOf`, `anyOf` and local `$ref`
+ * (see `compileJSONSchema`). Every error is reported, with codes matching the `Validator`
+ * rules (`required`, `min`, `minLength`, `pattern`, `email`...). Paths stay segments, so
+ * `groupByPath` and form bindings work unchanged, and the JSON pointer of each error is
+ * in `params.pointer`. The input passes unchanged, typed as `T`.
+ * @typeParam T - The type the schema describes.
+ * @param schema - The schema to compile.
+ * @throws TypeError if a `$ref` is not a local JSON pointer, cannot be resolved or only leads back to itself.
+ * @throws SyntaxError if a `pattern` is not a valid regular expression.
+ *
+ * @example
+ * const validateUser = Validation.fromJSONSchema<User>({
+ *   type: 'object',
+ *   required: ['email'],
+ *   properties: {
+ *     email: { type: 'string', format: 'email' },
+ *     tags: { type: 'array', items: { $ref: '#/$defs/tag' } }
+ *   },
+ *   $defs: { tag: { type: 'string', minLength: 1 } }
+ * });
+ * validateUser({ tags: [''] });
+ * // Failing with errors at '/email' (required) and '/tags/0' (minLength)
+ */
+export const fromJSONSchema = <T = unknown>(
+  schema: JSONSchemaDefinition
+): Validator<unknown, T> => {
+  const check = compileJSONSchema(schema);
+  return (input) => {
+    const errors = check(input);
+    return errors.length > 0
+      ? Failing.of(errors)
+      : Passing.of(input as T);
+  };
+};
+
+/**
+ * Converts a Validation into a Resource, such as to guard a request payload with form validators.
+ * `Passing` becomes `Data` and `Failing` becomes a `Failure` with the validation messages,
+ * or errors built by `onError`. Same as `Resource.fromValidation`.
+ * @param validation - The Validation to convert.
+ * @param params - Optional parameters for the Resource.
+ * @param onError - Optional function converting each validation error into a `Failure` error.
+ *
+ * @example
+ * const payload = Validation.toResource(form(values), { endpoint: '/settings' });
+ * payload.matchWith({ Data: ({ value }) => save(value), ... });
+ */
+export const toResource = <T, Q = undefined, F = string>(
+  validation: Validation<T>,
+  params?: Q,
+  onError?: (error: ValidationError) => F
+): Data<T, Q> | Failure<Q, F> =>
+  fromValidation(validation, params, onError);
+
 /**
  * Validation utilities and constructors.
  */
@@ -233,6 +676,148 @@ export const hasInstance = {
   Failing: isFailing
 };
 
+/**
+ * Plain-object form of a Validation, as produced by `toJSON` and accepted by `fromJSON`.
+ * @typeParam T - The type of the data in `Passing` state.
+ */
+export type ValidationJSON<T> = {
+  [JSON_TAG]: "Validation";
+} & (
+  | {
+      type: ValidationTypes.Passing;
+      value: T;
+      warnings?: ValidationError[];
+    }
+  | {
+      type: ValidationTypes.Failing;
+      messages: string[];
+      errors?: ValidationError[];
+    }
+);
+
+/**
+ * Converts a Validation into a plain object that survives `JSON.stringify`,
+ * `structuredClone`, `postMessage` or redux-persist. The object is tagged with
+ * `"@@phantom-stories": "Validation"`, so `reviver` leaves look-alike objects alone.
+ * @param validation - The Validation to convert.
+ *
+ * @example
+ * const json = Validation.toJSON(Validation.Failing(['Required']));
+ * // { '@@phantom-stories': 'Validation', type: 'Failing', messages: ['Required'],
+ * //   errors: [{ path: [], code: 'invalid', message: 'Required' }] }
+ */
+export const toJSON = <T>(
+  validation: Validation<T>
+): ValidationJSON<T> => {
+  switch (validation.type) {
+    case ValidationTypes.Passing:
+      return validation.warnings.length > 0
+        ? {
+            [JSON_TAG]: "Validation",
+            type: validation.type,
+            value: validation.value,
+            warnings: validation.warnings
+          }
+        : {
+            [JSON_TAG]: "Validation",
+            type: validation.type,
+            value: validation.value
+          };
+    case ValidationTypes.Failing:
+      return {
+        [JSON_TAG]: "Validation",
+        type: validation.type,
+        messages: validation.messages,
+        errors: validation.errors
+      };
+  }
+};
+
+/**
+ * Checks the fields of a serialized Validation, with or without its tag.
+ */
+const hasValidationShape = (value: unknown): boolean => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const json = value as Record<string, unknown>;
+  switch (json.type) {
+    // JSON.stringify drops an undefined value, so it may be missing
+    case ValidationTypes.Passing:
+      return true;
+    case ValidationTypes.Failing:
+      return Array.isArray(json.messages);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks whether a value is a serialized Validation: an object tagged by `toJSON`
+ * with the fields of its variant.
+ * @param value - The value to check.
+ */
+export const isValidationJSON = (
+  value: unknown
+): value is ValidationJSON<unknown> =>
+  hasValidationShape(value) &&
+  (value as Record<string, unknown>)[JSON_TAG] === "Validation";
+
+/**
+ * Rebuilds a Validation instance from its plain-object form.
+ * Unlike `reviver`, it does not require the tag, since the caller knows what `json` is.
+ * @param json - A value produced by `toJSON` (or a Validation that lost its prototype).
+ * @throws TypeError if `json` does not have the fields of a Validation.
+ *
+ * @example
+ * const validation = Validation.fromJSON<string>(JSON.parse(text));
+ */
+export const fromJSON = <T>(
+  json: ValidationJSON<T>
+): Validation<T> => {
+  if (!hasValidationShape(json)) {
+    throw new TypeError(
+      `Cannot rebuild a Validation from ${JSON.stringify(json)}`
+    );
+  }
+  switch (json.type) {
+    case ValidationTypes.Passing:
+      return Passing.of(json.value, json.warnings);
+    case ValidationTypes.Failing:
+      return Failing.of(json.errors ?? json.messages);
+  }
+};
+
+/**
+ * `JSON.parse` reviver that turns serialized Validations back into instances.
+ * Only objects tagged by `toJSON` (also used by `JSON.stringify` on instances) are revived,
+ * so other objects with a `type` field are left alone.
+ *
+ * @example
+ * const form = JSON.parse(persisted, Validation.reviver);
+ * // Combined with Resource: JSON.parse(text, (k, v) => Validation.reviver(k, Resource.reviver(k, v)))
+ */
+export const reviver = (_key: string, value: unknown): unknown =>
+  isValidationJSON(value) ? fromJSON(value) : value;
+
+/**
+ * Serializability check for Redux Toolkit's serializable middleware, accepting
+ * plain values and Validation instances (whose fields are then checked in turn).
+ * @param value - The value to check.
+ *
+ * @example
+ * getDefaultMiddleware({
+ *   serializableCheck: {
+ *     isSerializable: (value: unknown) =>
+ *       Resource.isSerializable(value) || Validation.isSerializable(value)
+ *   }
+ * });
+ */
+export const isSerializable = (value: unknown): boolean =>
+  isPlain(value) ||
+  value instanceof Passing ||
+  value instanceof Failing;
+
 /**
  * Validation utilities and constructors.
  */
@@ -242,6 +827,22 @@ export const Validation = {
   matchWith,
   isPassing,
   isFailing,
+  formatPath,
+  groupByPath,
+  toMessages,
+  of,
+  sequence,
+  traverse,
+  lift,
+  struct,
+  fromJSONSchema,
+  toJSONPointer,
+  toResource,
+  toJSON,
+  fromJSON,
+  isValidationJSON,
+  reviver,
+  isSerializable,
   hasInstance
 };
 
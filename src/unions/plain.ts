@@ -0,0 +1,30 @@
+/**
+ * Checks whether a value is already JSON-friendly on its own: a primitive,
+ * an array, or an object created by a literal (or with a null prototype).
+ * Mirrors the `isPlain` check of Redux Toolkit's serializable middleware.
+ * @param value - The value to check.
+ */
+export const isPlain = (value: unknown): boolean => {
+  const type = typeof value;
+  if (
+    value === null ||
+    type === "undefined" ||
+    type === "string" ||
+    type === "boolean" ||
+    type === "number" ||
+    Array.isArray(value)
+  ) {
+    return true;
+  }
+  if (type !== "object") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || proto === Object.prototype;
+};
+
+/**
+ * Key of the tag that `toJSON` puts on serialized Resources and Validations,
+ * so that revivers only rebuild objects this library wrote.
+ */
+export const JSON_TAG = "@@phantom-stories";
@@ -0,0 +1,37 @@
+import type { Resource, Query } from "./Resource";
+
+/**
+ * Pending requests of `Query` instances, registered with `suspendOn`.
+ */
+const pending = new WeakMap<
+  Query<unknown, unknown>,
+  Promise<Resource<unknown, unknown, unknown>>
+>();
+
+/**
+ * Registers the request a `Query` is waiting for, so `readResource` can suspend on it.
+ * The promise should resolve to the settled Resource and never reject, like `Resource.run`.
+ * @param query - The Query of the request.
+ * @param promise - The request, resolving to the settled Resource.
+ * @returns The same Query.
+ *
+ * @example
+ * const request = Resource.run(fetchUser, { id: '123' });
+ * setUser(suspendOn(Resource.Query({ id: '123' }), request));
+ */
+export const suspendOn = <T, Q, E = string>(
+  query: Query<Q, T>,
+  promise: Promise<Resource<T, Q, E>>
+): Query<Q, T> => {
+  pending.set(query, promise);
+  return query;
+};
+
+/**
+ * Returns the request registered for a `Query` with `suspendOn`, if any.
+ * @param query - The Query of the request.
+ */
+export const pendingRequest = <T, Q, E = string>(
+  query: Query<Q, T>
+): Promise<Resource<T, Q, E>> | undefined =>
+  pending.get(query) as Promise<Resource<T, Q, E>> | undefined;
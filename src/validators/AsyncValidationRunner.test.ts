@@ -0,0 +1,117 @@
+import { AsyncValidationRunner } from "./AsyncValidationRunner";
+import { Validator } from "./Validator";
+import { Passing, Failing, Validation } from "../unions/Validation";
+
+describe("AsyncValidationRunner", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Local stub of a server check resolving after 100ms
+  const createServer = (taken: string[]) => {
+    const signals: AbortSignal[] = [];
+    const check = jest.fn(
+      (name: string, signal: AbortSignal) =>
+        new Promise<Validation<string>>((resolve) => {
+          signals.push(signal);
+          setTimeout(
+            () =>
+              resolve(
+                taken.includes(name)
+                  ? Validator.fail("taken", "Username is taken")
+                  : Passing.of(name)
+              ),
+            100
+          );
+        })
+    );
+    return { check, signals };
+  };
+
+  it("debounces input and validates the latest value", async () => {
+    const { check } = createServer(["jane"]);
+    const runner = new AsyncValidationRunner(check, {
+      debounceMs: 200
+    });
+
+    const first = runner.validate("ja");
+    jest.advanceTimersByTime(100);
+    const second = runner.validate("jane");
+    expect(runner.getState().pending).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(300);
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(check).toHaveBeenCalledWith("jane", expect.anything());
+    expect(await first).toBeUndefined();
+    expect(await second).toBeInstanceOf(Failing);
+    expect(runner.getState().pending).toBe(false);
+    expect(runner.getState().validation).toBeInstanceOf(Failing);
+  });
+
+  it("aborts stale in-flight checks", async () => {
+    const { check, signals } = createServer([]);
+    const runner = new AsyncValidationRunner(check, {
+      debounceMs: 0
+    });
+    const listener = jest.fn();
+    runner.subscribe(listener);
+
+    const first = runner.validate("joe");
+    await jest.advanceTimersByTimeAsync(50);
+    const second = runner.validate("joel");
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+    expect(await first).toBeUndefined();
+    expect(await second).toEqual(Passing.of("joel"));
+    expect(listener.mock.calls.map(([state]) => state)).toEqual([
+      { pending: true },
+      { pending: true },
+      { pending: false, validation: Passing.of("joel") }
+    ]);
+  });
+
+  it("cancels pending checks and keeps the latest result", async () => {
+    const { check, signals } = createServer([]);
+    const runner = new AsyncValidationRunner(check, {
+      debounceMs: 0
+    });
+
+    await Promise.all([
+      runner.validate("joe"),
+      jest.advanceTimersByTimeAsync(100)
+    ]);
+    const pending = runner.validate("joel");
+    await jest.advanceTimersByTimeAsync(10);
+    runner.cancel();
+
+    expect(signals[1].aborted).toBe(true);
+    expect(await pending).toBeUndefined();
+    expect(runner.getState()).toEqual({
+      pending: false,
+      validation: Passing.of("joe")
+    });
+  });
+
+  it("turns rejected checks into a Failing", async () => {
+    const runner = new AsyncValidationRunner<string>(
+      async () => {
+        throw new Error("Network error");
+      },
+      { debounceMs: 0 }
+    );
+
+    const result = runner.validate("joe");
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(await result).toEqual(
+      Validator.fail("asyncError", "Network error")
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { Validation } from "../unions/Validation";
+import { AsyncValidator, fail } from "./Validator";
+
+/**
+ * State of an `AsyncValidationRunner`.
+ * @typeParam O - The type of the validated output.
+ */
+export interface AsyncValidationState<O> {
+  /** True while a check is debounced or in flight. */
+  pending: boolean;
+  /** The result of the latest completed check, if any. */
+  validation?: Validation<O>;
+}
+
+/**
+ * Options for `AsyncValidationRunner`.
+ */
+export interface AsyncValidationRunnerOptions {
+  /** Delay after the last input before the check starts, in milliseconds; defaults to 300. */
+  debounceMs?: number;
+}
+
+/**
+ * Runs an async validator on changing input, such as a form field.
+ * Input is debounced, a newer input aborts the stale check through its AbortSignal,
+ * and subscribers are notified whenever the pending state or the result changes.
+ * A rejected check becomes a `Failing` with the `asyncError` code.
+ * @typeParam I - The type of the input.
+ * @typeParam O - The type of the validated output.
+ *
+ * @example
+ * const runner = new AsyncValidationRunner(username, { debounceMs: 500 });
+ * runner.subscribe(({ pending, validation }) => render(pending, validation));
+ * input.addEventListener('input', (event) => runner.validate(event.target.value));
+ */
+export class AsyncValidationRunner<I, O = I> {
+  private state: AsyncValidationState<O> = { pending: false };
+  private readonly listeners = new Set<
+    (state: AsyncValidationState<O>) => void
+  >();
+  private readonly debounceMs: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+  private resolve?: (validation: Validation<O> | undefined) => void;
+
+  constructor(
+    private readonly validator: AsyncValidator<I, O>,
+    options: AsyncValidationRunnerOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 300;
+  }
+
+  /**
+   * Validates an input once it has not changed for `debounceMs`, superseding any
+   * debounced or in-flight check.
+   * @param input - The input to validate.
+   * @returns A Promise of the result, or of `undefined` when a newer input or `cancel`
+   * supersedes this check; it never rejects.
+   */
+  public validate(input: I): Promise<Validation<O> | undefined> {
+    this.supersede();
+    this.setState({ ...this.state, pending: true });
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.timer = setTimeout(
+        () => this.check(input),
+        this.debounceMs
+      );
+    });
+  }
+
+  /**
+   * Cancels the debounced or in-flight check, keeping the latest result.
+   */
+  public cancel(): void {
+    this.supersede();
+    if (this.state.pending) {
+      this.setState({ ...this.state, pending: false });
+    }
+  }
+
+  /**
+   * Returns the current pending state and latest result.
+   */
+  public getState(): AsyncValidationState<O> {
+    return this.state;
+  }
+
+  /**
+   * Subscribes to changes of the pending state and result.
+   * @param listener - Called with the new state after every change.
+   * @returns A function that removes the subscription.
+   */
+  public subscribe(
+    listener: (state: AsyncValidationState<O>) => void
+  ): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async check(input: I): Promise<void> {
+    const controller = new AbortController();
+    const resolve = this.resolve;
+    this.controller = controller;
+    let validation: Validation<O>;
+    try {
+      validation = await this.validator(input, controller.signal);
+    } catch (error: unknown) {
+      validation = fail(
+        "asyncError",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    // A newer input or cancel has aborted this check
+    if (controller.signal.aborted) {
+      return;
+    }
+    this.controller = undefined;
+    this.resolve = undefined;
+    this.setState({ pending: false, validation });
+    resolve?.(validation);
+  }
+
+  private supersede(): void {
+    clearTimeout(this.timer);
+    this.controller?.abort();
+    this.controller = undefined;
+    this.resolve?.(undefined);
+    this.resolve = undefined;
+  }
+
+  private setState(state: AsyncValidationState<O>): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export default AsyncValidationRunner;
@@ -0,0 +1,243 @@
+import { compileJSONSchema, JSONSchema } from "./JSONSchema";
+import {
+  Validation,
+  Passing,
+  isFailing,
+  fromJSONSchema
+} from "../unions/Validation";
+
+describe("JSON Schema", () => {
+  const schema: JSONSchema = {
+    type: "object",
+    required: ["name", "email", "address"],
+    properties: {
+      name: { type: "string", minLength: 2, maxLength: 20 },
+      email: { type: "string", format: "email" },
+      age: { type: "integer", minimum: 18, exclusiveMaximum: 130 },
+      role: { enum: ["admin", "user"] },
+      address: { $ref: "#/$defs/address" },
+      tags: {
+        type: "array",
+        maxItems: 2,
+        items: { type: "string", pattern: "^[a-z]+$" }
+      },
+      contact: {
+        oneOf: [
+          { type: "string", format: "email" },
+          { type: "string", pattern: "^\\+?\\d{7,}$" }
+        ]
+      },
+      website: {
+        anyOf: [{ type: "null" }, { type: "string", format: "uri" }]
+      }
+    },
+    $defs: {
+      address: {
+        type: "object",
+        required: ["zip"],
+        properties: { zip: { type: "string", pattern: "^\\d{5}$" } }
+      }
+    }
+  };
+
+  type User = { name: string; email: string };
+  const validate = fromJSONSchema<User>(schema);
+
+  const pointers = <T>(validation: Validation<T>) =>
+    isFailing(validation)
+      ? validation.errors.map(
+          (e) => `${Validation.toJSONPointer(e.path)} ${e.code}`
+        )
+      : [];
+
+  test("passes valid input unchanged", () => {
+    const input = {
+      name: "Jane",
+      email: "jane@example.com",
+      age: 30,
+      role: "admin",
+      address: { zip: "12345" },
+      tags: ["a", "b"],
+      contact: "+5491112345",
+      website: null
+    };
+    const result = validate(input);
+    expect(result).toEqual(Passing.of(input));
+  });
+
+  test("reports every error with a JSON pointer path", () => {
+    const result = validate({
+      name: "J",
+      age: 12.5,
+      role: "root",
+      address: { zip: "abc" },
+      tags: ["a", "B", "c"],
+      contact: "nope",
+      website: "not a url"
+    });
+    expect(pointers(result)).toEqual([
+      "/email required",
+      "/name minLength",
+      "/age type",
+      "/role enum",
+      "/address/zip pattern",
+      "/tags maxLength",
+      "/tags/1 pattern",
+      "/contact email",
+      "/contact pattern",
+      "/website type",
+      "/website url"
+    ]);
+  });
+
+  test("checks types, numbers and formats", () => {
+    const number = fromJSONSchema({
+      type: "number",
+      minimum: 1,
+      maximum: 10,
+      exclusiveMinimum: 1
+    });
+    expect(pointers(number("1"))).toEqual([" type"]);
+    expect(pointers(number(1))).toEqual([" exclusiveMinimum"]);
+    expect(pointers(number(11))).toEqual([" max"]);
+    expect(number(2.5)).toEqual(Passing.of(2.5));
+    const dates = fromJSONSchema({
+      type: "array",
+      items: [
+        { type: "string", format: "date" },
+        { type: "string", format: "date-time" },
+        { type: "string", format: "uuid" }
+      ]
+    });
+    expect(
+      pointers(dates(["2024-02-30", "2024-02-01T10:00:00Z", "x"]))
+    ).toEqual(["/0 date", "/2 uuid"]);
+  });
+
+  test("oneOf fails when several schemas match", () => {
+    const ambiguous = fromJSONSchema({
+      oneOf: [{ type: "string" }, { type: "string", minLength: 1 }]
+    });
+    expect(pointers(ambiguous("a"))).toEqual([" oneOf"]);
+    expect(ambiguous("")).toEqual(Passing.of(""));
+  });
+
+  test("supports boolean and recursive schemas", () => {
+    const tree = fromJSONSchema({
+      $ref: "#/definitions/node",
+      definitions: {
+        node: {
+          type: "object",
+          properties: {
+            value: { type: "number" },
+            children: {
+              type: "array",
+              items: { $ref: "#/definitions/node" }
+            },
+            extra: false
+          }
+        }
+      }
+    });
+    expect(
+      pointers(
+        tree({
+          value: 1,
+          children: [{ value: "2", children: [] }],
+          extra: 1
+        })
+      )
+    ).toEqual(["/children/0/value type", "/extra not"]);
+  });
+
+  test("rejects unresolvable or remote references when compiled", () => {
+    expect(() => fromJSONSchema({ $ref: "#/$defs/missing" })).toThrow(
+      TypeError
+    );
+    expect(() =>
+      fromJSONSchema({
+        $ref: "https://example.com/schema"
+      })
+    ).toThrow(TypeError);
+  });
+
+  test("rejects anchor and circular references when compiled", () => {
+    expect(() =>
+      fromJSONSchema({
+        type: "object",
+        properties: { address: { $ref: "#address" } }
+      })
+    ).toThrow(TypeError);
+    expect(() => fromJSONSchema({ $ref: "#x" })).toThrow(TypeError);
+    expect(() => fromJSONSchema({ $ref: "#" })).toThrow(TypeError);
+    expect(() =>
+      fromJSONSchema({
+        $ref: "#/$defs/a",
+        $defs: { a: { $ref: "#/$defs/b" }, b: { $ref: "#/$defs/a" } }
+      })
+    ).toThrow(TypeError);
+  });
+
+  test("supports references to the root schema", () => {
+    const list = fromJSONSchema({
+      type: "array",
+      items: { anyOf: [{ type: "number" }, { $ref: "#" }] }
+    });
+    expect(list([1, [2, [3]]])).toEqual(Passing.of([1, [2, [3]]]));
+    expect(pointers(list([1, [2, ["x"]]]))).toContain("/1/1/0 type");
+  });
+
+  test("checks own properties only", () => {
+    const number: JSONSchema = { type: "number" };
+    const inherited = fromJSONSchema({
+      type: "object",
+      required: ["constructor", "name"],
+      properties: { toString: number }
+    });
+    expect(pointers(inherited({}))).toEqual([
+      "/constructor required",
+      "/name required"
+    ]);
+  });
+
+  test("rejects invalid patterns when compiled", () => {
+    expect(() =>
+      fromJSONSchema({ type: "string", pattern: "([a-z]" })
+    ).toThrow(SyntaxError);
+  });
+
+  test("does not compile annotations and data as schemas", () => {
+    const name = fromJSONSchema({
+      type: "string",
+      default: { pattern: "(" },
+      examples: [{ $ref: "#/missing" }],
+      enum: ["a", { pattern: "(" }]
+    } as JSONSchema);
+    expect(name("a")).toEqual(Passing.of("a"));
+  });
+
+  test("puts the JSON pointer of each error in its params", () => {
+    const check = compileJSONSchema({
+      type: "object",
+      properties: {
+        "a/b": { type: "array", items: { type: "string" } }
+      }
+    });
+    expect(check({ "a/b": ["x", 1] })).toEqual([
+      {
+        path: ["a/b", 1],
+        code: "type",
+        message: "Must be string",
+        params: { type: ["string"], pointer: "/a~1b/1" }
+      }
+    ]);
+    expect(check({})).toEqual([]);
+  });
+
+  test("toJSONPointer escapes segments", () => {
+    expect(Validation.toJSONPointer([])).toBe("");
+    expect(Validation.toJSONPointer(["a/b", "c~d", 0])).toBe(
+      "/a~1b/c~0d/0"
+    );
+  });
+});
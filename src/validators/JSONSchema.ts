@@ -0,0 +1,447 @@
+import type {
+  ValidationError,
+  ValidationPath
+} from "../unions/Validation";
+import { isDateString, isEmail, isURL, isUUID } from "./formats";
+
+/**
+ * The JSON types of the `type` keyword.
+ */
+export type JSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * A schema or a boolean schema (`true` accepts everything, `false` nothing).
+ */
+export type JSONSchemaDefinition = JSONSchema | boolean;
+
+/**
+ * The subset of JSON Schema (draft-07 and 2020-12) supported by `fromJSONSchema`.
+ * Other keywords are ignored.
+ */
+export interface JSONSchema {
+  /** A local reference, such as `#/$defs/address` or `#/definitions/address`. */
+  $ref?: string;
+  $defs?: Record<string, JSONSchemaDefinition>;
+  definitions?: Record<string, JSONSchemaDefinition>;
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: unknown[];
+  properties?: Record<string, JSONSchemaDefinition>;
+  required?: string[];
+  /** A schema for every item, or one schema per item as in draft-07 tuples. */
+  items?: JSONSchemaDefinition | JSONSchemaDefinition[];
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** One of `email`, `uri`, `date`, `date-time` or `uuid`; other formats are ignored. */
+  format?: string;
+  oneOf?: JSONSchemaDefinition[];
+  anyOf?: JSONSchemaDefinition[];
+}
+
+const FORMATS: Record<string, [(input: string) => boolean, string]> =
+  {
+    email: [isEmail, "Must be a valid email address"],
+    uri: [(input) => isURL(input), "Must be a valid URL"],
+    date: [
+      (input) =>
+        /^\d{4}-\d{2}-\d{2}$/.test(input) && isDateString(input),
+      "Must be a valid date"
+    ],
+    "date-time": [
+      (input) =>
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(
+          input
+        ) && isDateString(input),
+      "Must be a valid date and time"
+    ],
+    uuid: [isUUID, "Must be a valid UUID"]
+  };
+
+// Error codes follow the Validator rules where they match a keyword
+const FORMAT_CODES: Record<string, string> = { uri: "url" };
+
+const jsonType = (value: unknown): JSONSchemaType =>
+  value === null
+    ? "null"
+    : Array.isArray(value)
+      ? "array"
+      : Number.isInteger(value)
+        ? "integer"
+        : (typeof value as JSONSchemaType);
+
+const resolveRef = (root: JSONSchemaDefinition, ref: string) => {
+  // Anchors such as #address are not supported, only JSON pointers
+  if (ref !== "#" && !ref.startsWith("#/")) {
+    throw new TypeError(
+      `Only local JSON pointer $ref are supported, got ${ref}`
+    );
+  }
+  const schema = ref
+    .slice(1)
+    .split("/")
+    .slice(1)
+    .map((segment) =>
+      decodeURIComponent(segment)
+        .replace(/~1/g, "/")
+        .replace(/~0/g, "~")
+    )
+    .reduce<unknown>(
+      (schema, segment) =>
+        typeof schema === "object" && schema !== null
+          ? (schema as Record<string, unknown>)[segment]
+          : undefined,
+      root
+    );
+  if (typeof schema !== "boolean" && typeof schema !== "object") {
+    throw new TypeError(`Cannot resolve $ref ${ref}`);
+  }
+  return schema as JSONSchemaDefinition;
+};
+
+// A $ref replaces its schema, so references leading back to it never end
+const checkRefChain = (
+  root: JSONSchemaDefinition,
+  schema: JSONSchemaDefinition
+): void => {
+  const chain = new Set<JSONSchema>();
+  for (
+    let current = schema;
+    typeof current === "object" && current.$ref !== undefined;
+    current = resolveRef(root, current.$ref)
+  ) {
+    if (chain.has(current)) {
+      throw new TypeError(`Circular $ref ${current.$ref}`);
+    }
+    chain.add(current);
+  }
+};
+
+// A schema with its patterns compiled
+interface CompiledSchema {
+  root: JSONSchemaDefinition;
+  patterns: Map<string, RegExp>;
+  // Schemas already compiled, so recursive references end
+  visited: WeakSet<JSONSchema>;
+}
+
+// Resolves every $ref and compiles every pattern up front, so invalid
+// schemas fail when compiled. Only schema keywords are walked, since
+// annotations and data such as `default` or `enum` may hold anything.
+const compile = (
+  compiled: CompiledSchema,
+  schema: JSONSchemaDefinition
+): void => {
+  if (typeof schema === "boolean" || compiled.visited.has(schema)) {
+    return;
+  }
+  compiled.visited.add(schema);
+  const { $ref, pattern, items } = schema;
+  if (typeof $ref === "string") {
+    compile(compiled, resolveRef(compiled.root, $ref));
+    checkRefChain(compiled.root, schema);
+  }
+  if (
+    typeof pattern === "string" &&
+    !compiled.patterns.has(pattern)
+  ) {
+    compiled.patterns.set(pattern, new RegExp(pattern, "u"));
+  }
+  [
+    ...Object.values(schema.properties ?? {}),
+    ...(items === undefined
+      ? []
+      : ([] as JSONSchemaDefinition[]).concat(items)),
+    ...Object.values(schema.$defs ?? {}),
+    ...Object.values(schema.definitions ?? {}),
+    ...(schema.oneOf ?? []),
+    ...(schema.anyOf ?? [])
+  ].forEach((child) => compile(compiled, child));
+};
+
+const has = (object: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+const checkSchema = (
+  compiled: CompiledSchema,
+  schema: JSONSchemaDefinition,
+  value: unknown,
+  path: ValidationPath
+): ValidationError[] => {
+  if (schema === true) {
+    return [];
+  }
+  if (schema === false) {
+    return [{ path, code: "not", message: "Not allowed" }];
+  }
+  if (schema.$ref !== undefined) {
+    return checkSchema(
+      compiled,
+      resolveRef(compiled.root, schema.$ref),
+      value,
+      path
+    );
+  }
+  const error = (
+    code: string,
+    message: string,
+    params?: Record<string, unknown>
+  ): ValidationError[] => [
+    params ? { path, code, message, params } : { path, code, message }
+  ];
+  const type = jsonType(value);
+  const types =
+    schema.type === undefined
+      ? undefined
+      : ([] as JSONSchemaType[]).concat(schema.type);
+  if (
+    types &&
+    !types.includes(type) &&
+    !(type === "integer" && types.includes("number"))
+  ) {
+    return error("type", `Must be ${types.join(" or ")}`, {
+      type: types
+    });
+  }
+  const errors: ValidationError[] = [];
+  if (
+    schema.enum &&
+    !schema.enum.some(
+      (option) => JSON.stringify(option) === JSON.stringify(value)
+    )
+  ) {
+    errors.push(
+      ...error("enum", `Must be one of ${schema.enum.join(", ")}`, {
+        values: schema.enum
+      })
+    );
+  }
+  if (type === "integer" || type === "number") {
+    const number = value as number;
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } =
+      schema;
+    if (minimum !== undefined && number < minimum) {
+      errors.push(
+        ...error("min", `Must be at least ${minimum}`, {
+          min: minimum
+        })
+      );
+    }
+    if (maximum !== undefined && number > maximum) {
+      errors.push(
+        ...error("max", `Must be at most ${maximum}`, {
+          max: maximum
+        })
+      );
+    }
+    if (
+      exclusiveMinimum !== undefined &&
+      number <= exclusiveMinimum
+    ) {
+      errors.push(
+        ...error(
+          "exclusiveMinimum",
+          `Must be greater than ${exclusiveMinimum}`,
+          { min: exclusiveMinimum }
+        )
+      );
+    }
+    if (
+      exclusiveMaximum !== undefined &&
+      number >= exclusiveMaximum
+    ) {
+      errors.push(
+        ...error(
+          "exclusiveMaximum",
+          `Must be less than ${exclusiveMaximum}`,
+          { max: exclusiveMaximum }
+        )
+      );
+    }
+  }
+  if (type === "string") {
+    const string = value as string;
+    // Lengths count code points, as the specification requires
+    const length = [...string].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      errors.push(
+        ...error(
+          "minLength",
+          `Must have at least ${schema.minLength} characters`,
+          { min: schema.minLength }
+        )
+      );
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      errors.push(
+        ...error(
+          "maxLength",
+          `Must have at most ${schema.maxLength} characters`,
+          { max: schema.maxLength }
+        )
+      );
+    }
+    if (
+      schema.pattern !== undefined &&
+      !compiled.patterns.get(schema.pattern)!.test(string)
+    ) {
+      errors.push(
+        ...error("pattern", "Has an invalid format", {
+          pattern: schema.pattern
+        })
+      );
+    }
+    const format = schema.format && FORMATS[schema.format];
+    if (format && !format[0](string)) {
+      errors.push(
+        ...error(
+          FORMAT_CODES[schema.format!] ?? schema.format!,
+          format[1]
+        )
+      );
+    }
+  }
+  if (type === "array") {
+    const array = value as unknown[];
+    if (
+      schema.minItems !== undefined &&
+      array.length < schema.minItems
+    ) {
+      errors.push(
+        ...error(
+          "minLength",
+          `Must have at least ${schema.minItems} items`,
+          { min: schema.minItems }
+        )
+      );
+    }
+    if (
+      schema.maxItems !== undefined &&
+      array.length > schema.maxItems
+    ) {
+      errors.push(
+        ...error(
+          "maxLength",
+          `Must have at most ${schema.maxItems} items`,
+          { max: schema.maxItems }
+        )
+      );
+    }
+    const { items } = schema;
+    if (items !== undefined) {
+      array.forEach((item, index) => {
+        const itemSchema = Array.isArray(items)
+          ? items[index]
+          : items;
+        if (itemSchema !== undefined) {
+          errors.push(
+            ...checkSchema(compiled, itemSchema, item, [
+              ...path,
+              index
+            ])
+          );
+        }
+      });
+    }
+  }
+  if (type === "object") {
+    const object = value as Record<string, unknown>;
+    (schema.required ?? []).forEach((key) => {
+      if (!has(object, key)) {
+        errors.push({
+          path: [...path, key],
+          code: "required",
+          message: "Required"
+        });
+      }
+    });
+    Object.entries(schema.properties ?? {}).forEach(
+      ([key, property]) => {
+        if (has(object, key)) {
+          errors.push(
+            ...checkSchema(compiled, property, object[key], [
+              ...path,
+              key
+            ])
+          );
+        }
+      }
+    );
+  }
+  if (schema.anyOf) {
+    const results = schema.anyOf.map((option) =>
+      checkSchema(compiled, option, value, path)
+    );
+    if (results.every((result) => result.length > 0)) {
+      errors.push(...results.flat());
+    }
+  }
+  if (schema.oneOf) {
+    const results = schema.oneOf.map((option) =>
+      checkSchema(compiled, option, value, path)
+    );
+    const passing = results.filter((result) => result.length === 0);
+    if (passing.length === 0) {
+      errors.push(...results.flat());
+    } else if (passing.length > 1) {
+      errors.push(...error("oneOf", "Must match exactly one schema"));
+    }
+  }
+  return errors;
+};
+
+/**
+ * Formats a path as a JSON pointer (RFC 6901), as used by JSON Schema error reports.
+ * @param path - The path to format.
+ *
+ * @example
+ * toJSONPointer(['items', 0, 'a/b']); // '/items/0/a~1b'
+ */
+export const toJSONPointer = (path: ValidationPath): string =>
+  path
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, "~0").replace(/\//g, "~1")}`
+    )
+    .join("");
+
+/**
+ * Compiles a JSON Schema into a function listing the errors of an input, as used by
+ * `Validation.fromJSONSchema`. Every error has its path as segments, like those of every
+ * other validator, and its JSON pointer in `params.pointer`.
+ * @param schema - The schema to compile.
+ * @returns A function returning the errors of an input; none when it matches the schema.
+ * @throws TypeError if a `$ref` is not a local JSON pointer, cannot be resolved or only leads back to itself.
+ * @throws SyntaxError if a `pattern` is not a valid regular expression.
+ *
+ * @example
+ * const check = compileJSONSchema({ type: 'object', required: ['email'] });
+ * check({}); // [{ path: ['email'], code: 'required', message: 'Required', params: { pointer: '/email' } }]
+ */
+export const compileJSONSchema = (
+  schema: JSONSchemaDefinition
+): ((input: unknown) => ValidationError[]) => {
+  const compiled: CompiledSchema = {
+    root: schema,
+    patterns: new Map(),
+    visited: new WeakSet()
+  };
+  compile(compiled, schema);
+  return (input) =>
+    checkSchema(compiled, schema, input, []).map((error) => ({
+      ...error,
+      params: { ...error.params, pointer: toJSONPointer(error.path) }
+    }));
+};
@@ -0,0 +1,121 @@
+import { MessageCatalog } from "./MessageCatalog";
+import { Validator } from "./Validator";
+import {
+  Validation,
+  ValidationError,
+  isFailing
+} from "../unions/Validation";
+
+describe("MessageCatalog", () => {
+  const catalog = new MessageCatalog({
+    locale: "es-PY",
+    fallbackLocale: "en",
+    messages: {
+      en: {
+        required: "Required",
+        email: "Must be a valid email address",
+        oneOf: "Must be one of {values}"
+      },
+      es: {
+        required: "Obligatorio",
+        minLength: {
+          param: "min",
+          one: "Debe tener al menos {min} carácter",
+          other: "Debe tener al menos {min} caracteres"
+        },
+        "Passwords do not match": "Las contraseñas no coinciden"
+      },
+      "es-PY": { required: "Campo obligatorio" }
+    }
+  });
+
+  const errorsOf = <T>(
+    validation: Validation<T>
+  ): ValidationError[] =>
+    isFailing(validation) ? validation.errors : [];
+
+  test("resolves codes in the most specific locale first", () => {
+    const [error] = errorsOf(Validator.required()(""));
+    expect(catalog.resolve(error)).toBe("Campo obligatorio");
+    expect(catalog.withLocale("es").resolve(error)).toBe(
+      "Obligatorio"
+    );
+  });
+
+  test("falls back to the language, the fallback locale and the error message", () => {
+    const [email] = errorsOf(Validator.email()("jane"));
+    expect(catalog.resolve(email)).toBe(
+      "Must be a valid email address"
+    );
+    const [integer] = errorsOf(
+      Validator.integer("Whole numbers only")(1.5)
+    );
+    expect(catalog.resolve(integer)).toBe("Whole numbers only");
+    expect(catalog.withLocale("fr").resolve(email)).toBe(
+      "Must be a valid email address"
+    );
+  });
+
+  test("interpolates params and selects plural forms", () => {
+    const [one] = errorsOf(Validator.minLength(1)(""));
+    const [many] = errorsOf(Validator.minLength(3)("ab"));
+    expect(catalog.resolve(one)).toBe(
+      "Debe tener al menos 1 carácter"
+    );
+    expect(catalog.resolve(many)).toBe(
+      "Debe tener al menos 3 caracteres"
+    );
+    const [oneOf] = errorsOf(Validator.oneOf(["a", "b"])("c"));
+    expect(catalog.resolve(oneOf)).toBe("Must be one of a, b");
+  });
+
+  test("uses the zero form and leaves unknown placeholders", () => {
+    const items = new MessageCatalog({
+      locale: "en",
+      messages: {
+        en: {
+          items: {
+            zero: "No items",
+            one: "{count} item",
+            other: "{count} items {unit}"
+          }
+        }
+      }
+    });
+    const error = (count: number): ValidationError => ({
+      path: [],
+      code: "items",
+      message: "",
+      params: { count }
+    });
+    expect(items.resolve(error(0))).toBe("No items");
+    expect(items.resolve(error(1))).toBe("1 item");
+    expect(items.resolve(error(2))).toBe("2 items {unit}");
+  });
+
+  test("looks up errors created from plain messages by their message", () => {
+    const failing = Validation.Failing(["Passwords do not match"]);
+    expect(
+      Validation.toMessages(failing, catalog.resolver())
+    ).toEqual(["Las contraseñas no coinciden"]);
+  });
+
+  test("ignores inherited properties of the messages and params", () => {
+    const inherited = Validation.Failing(["constructor", "toString"]);
+    expect(
+      Validation.toMessages(inherited, catalog.resolver())
+    ).toEqual(["constructor", "toString"]);
+    const items = new MessageCatalog({
+      locale: "en",
+      messages: { en: { items: "{count} {constructor}" } }
+    });
+    expect(
+      items.resolve({
+        path: [],
+        code: "items",
+        message: "",
+        params: { count: 2 }
+      })
+    ).toBe("2 {constructor}");
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  DEFAULT_ERROR_CODE,
+  ValidationError
+} from "../unions/Validation";
+
+/**
+ * A message chosen by the plural category of a numeric param, as given by `Intl.PluralRules`.
+ *
+ * @example
+ * const minLength: PluralMessage = {
+ *   param: 'min',
+ *   one: 'Must have at least {min} character',
+ *   other: 'Must have at least {min} characters'
+ * };
+ */
+export interface PluralMessage {
+  /** Name of the param that selects the plural category; defaults to `count`. */
+  param?: string;
+  /** Message for a count of 0, in every locale. */
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  /** Message for every category without its own message. */
+  other: string;
+}
+
+/**
+ * A message template, where `{name}` placeholders are replaced by the error params.
+ */
+export type MessageTemplate = string | PluralMessage;
+
+/**
+ * The message templates of one locale, keyed by error code.
+ */
+export type LocaleMessages = Record<string, MessageTemplate>;
+
+/**
+ * Options for `MessageCatalog`.
+ */
+export interface MessageCatalogOptions {
+  /** The locale messages are resolved in, such as `es-PY`. */
+  locale: string;
+  /** The locale used for codes missing in `locale`. */
+  fallbackLocale?: string;
+  /** The message templates of each locale. */
+  messages: Record<string, LocaleMessages>;
+}
+
+/**
+ * Resolves validation errors into localized messages.
+ * Templates are looked up by error code in the locale, its language (`es` for `es-PY`),
+ * the fallback locale and its language, in that order. Errors created from plain messages
+ * (with the `invalid` code) are looked up by their message instead. When no template is
+ * found, the error keeps its own message.
+ *
+ * @example
+ * const catalog = new MessageCatalog({
+ *   locale: 'es',
+ *   fallbackLocale: 'en',
+ *   messages: {
+ *     en: { required: 'Required' },
+ *     es: {
+ *       required: 'Obligatorio',
+ *       minLength: { param: 'min', one: 'Mínimo {min} carácter', other: 'Mínimo {min} caracteres' }
+ *     }
+ *   }
+ * });
+ * catalog.resolve({ path: ['name'], code: 'minLength', message: '', params: { min: 3 } }); // 'Mínimo 3 caracteres'
+ * <ValidationRender validation={validation} catalog={catalog} Passing={MyPassing} Failing={MyFailing} />
+ */
+export class MessageCatalog {
+  constructor(private readonly options: MessageCatalogOptions) {}
+
+  /**
+   * The locale messages are resolved in.
+   */
+  public get locale(): string {
+    return this.options.locale;
+  }
+
+  /**
+   * Returns a catalog with the same messages resolving in another locale.
+   * @param locale - The new locale.
+   */
+  public withLocale(locale: string): MessageCatalog {
+    return new MessageCatalog({ ...this.options, locale });
+  }
+
+  /**
+   * Resolves an error into a message in the catalog locale.
+   * @param error - The error to resolve.
+   */
+  public resolve(error: ValidationError): string {
+    const key =
+      error.code === DEFAULT_ERROR_CODE ? error.message : error.code;
+    const found = this.locales()
+      .map((locale) => ({
+        locale,
+        template: own(own(this.options.messages, locale), key)
+      }))
+      .find(({ template }) => template !== undefined);
+    return found?.template === undefined
+      ? error.message
+      : interpolate(
+          select(found.template, found.locale, error.params ?? {}),
+          error.params ?? {}
+        );
+  }
+
+  /**
+   * Returns `resolve` bound to this catalog, for use as a `formatError` function.
+   */
+  public resolver(): (error: ValidationError) => string {
+    return (error) => this.resolve(error);
+  }
+
+  private locales(): string[] {
+    const { locale, fallbackLocale } = this.options;
+    const locales = [locale, fallbackLocale].flatMap((tag) =>
+      tag ? [tag, tag.split("-")[0]] : []
+    );
+    return [...new Set(locales)];
+  }
+}
+
+// Own properties only, so codes like `constructor` are not read from the prototype
+const own = <T>(
+  record: Record<string, T> | undefined,
+  key: string
+): T | undefined =>
+  record && Object.prototype.hasOwnProperty.call(record, key)
+    ? record[key]
+    : undefined;
+
+const select = (
+  template: MessageTemplate,
+  locale: string,
+  params: Record<string, unknown>
+): string => {
+  if (typeof template === "string") {
+    return template;
+  }
+  const count = Number(params[template.param ?? "count"]);
+  if (count === 0 && template.zero !== undefined) {
+    return template.zero;
+  }
+  const category = new Intl.PluralRules(locale).select(count);
+  return (
+    (category !== "other" && template[category]) || template.other
+  );
+};
+
+const interpolate = (
+  template: string,
+  params: Record<string, unknown>
+): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(params, name)
+      ? format(params[name])
+      : placeholder
+  );
+
+const format = (value: unknown): string =>
+  Array.isArray(value) ? value.join(", ") : String(value);
+
+export default MessageCatalog;
@@ -0,0 +1,214 @@
+import { Validator } from "./Validator";
+import {
+  Failing,
+  Passing,
+  Validation,
+  isFailing
+} from "../unions/Validation";
+
+const codes = <T>(validation: Validation<T>) =>
+  isFailing(validation) ? validation.errors.map((e) => e.code) : [];
+
+describe("Validator rules", () => {
+  test("required fails on missing values and narrows present ones", () => {
+    const validator = Validator.required<string>();
+    expect(codes(validator(undefined))).toEqual(["required"]);
+    expect(codes(validator(null))).toEqual(["required"]);
+    expect(codes(validator(""))).toEqual(["required"]);
+    expect(validator("a")).toEqual(Passing.of("a"));
+    expect(Validator.required<number>()(0)).toEqual(Passing.of(0));
+  });
+
+  test("minLength and maxLength check strings and arrays", () => {
+    expect(Validator.minLength(3)("ab")).toEqual(
+      Failing.of([
+        {
+          path: [],
+          code: "minLength",
+          message: "Must have at least 3 characters",
+          params: { min: 3 }
+        }
+      ])
+    );
+    expect(Validator.minLength<number[]>(1)([])).toBeInstanceOf(
+      Failing
+    );
+    expect(Validator.maxLength(3)("abc")).toEqual(Passing.of("abc"));
+    expect(Validator.maxLength<number[]>(1)([1, 2])).toMatchObject({
+      messages: ["Must have at most 1 items"]
+    });
+  });
+
+  test("pattern, email and url check string formats", () => {
+    expect(codes(Validator.pattern(/^\d+$/)("12a"))).toEqual([
+      "pattern"
+    ]);
+    expect(Validator.email()("jane@example.com")).toBeInstanceOf(
+      Passing
+    );
+    expect(codes(Validator.email()("jane@example"))).toEqual([
+      "email"
+    ]);
+    expect(Validator.url()("https://example.com/a")).toBeInstanceOf(
+      Passing
+    );
+    expect(codes(Validator.url()("example.com"))).toEqual(["url"]);
+    expect(codes(Validator.url()("ftp://example.com"))).toEqual([
+      "url"
+    ]);
+  });
+
+  test("min, max, range and integer check numbers", () => {
+    expect(codes(Validator.min(1)(0))).toEqual(["min"]);
+    expect(codes(Validator.max(1)(2))).toEqual(["max"]);
+    expect(Validator.range(1, 3)(3)).toEqual(Passing.of(3));
+    expect(codes(Validator.range(1, 3)(4))).toEqual(["range"]);
+    expect(codes(Validator.integer()(1.5))).toEqual(["integer"]);
+  });
+
+  test("oneOf narrows to the allowed values", () => {
+    const theme = Validator.oneOf(["light", "dark"] as const);
+    const result: Validation<"light" | "dark"> = theme("dark");
+    expect(result).toEqual(Passing.of("dark"));
+    expect(codes(theme("blue"))).toEqual(["oneOf"]);
+  });
+
+  test("date parses valid dates and rejects invalid ones", () => {
+    const result = Validator.date()("2024-02-29");
+    expect(result).toBeInstanceOf(Passing);
+    expect(
+      result instanceof Passing && result.value.toISOString()
+    ).toBe("2024-02-29T00:00:00.000Z");
+    expect(codes(Validator.date()("2024-02-30"))).toEqual(["date"]);
+    expect(codes(Validator.date()("soon"))).toEqual(["date"]);
+    expect(Validator.date()(0)).toBeInstanceOf(Passing);
+  });
+
+  test("rule and fail build custom rules", () => {
+    const even = Validator.rule<number>(
+      "even",
+      (n) => n % 2 === 0,
+      "Must be even",
+      { divisor: 2 }
+    );
+    expect(even(2)).toEqual(Passing.of(2));
+    expect(even(1)).toEqual(
+      Validator.fail("even", "Must be even", { divisor: 2 })
+    );
+  });
+
+  test("messages can be overridden", () => {
+    expect(
+      Validator.required("Name is required")(null)
+    ).toMatchObject({
+      messages: ["Name is required"]
+    });
+  });
+});
+
+describe("Validator combinators", () => {
+  test("and accumulates the errors of every validator", () => {
+    const password = Validator.and(
+      Validator.minLength<string>(8),
+      Validator.pattern(/\d/, "Must contain a digit")
+    );
+    expect(codes(password("abc"))).toEqual(["minLength", "pattern"]);
+    expect(password("abcdefg1")).toEqual(Passing.of("abcdefg1"));
+  });
+
+  test("or passes with the first passing alternative", () => {
+    const contact = Validator.or(
+      Validator.email(),
+      Validator.pattern(/^\+?\d{7,}$/, "Must be a phone number")
+    );
+    expect(contact("+5491112345")).toEqual(Passing.of("+5491112345"));
+    expect(codes(contact("nope"))).toEqual(["email", "pattern"]);
+  });
+
+  test("not inverts a validator", () => {
+    const notReserved = Validator.not<unknown>(
+      Validator.oneOf(["admin", "root"]),
+      "This name is reserved",
+      "reserved"
+    );
+    expect(notReserved("jane")).toEqual(Passing.of("jane"));
+    expect(codes(notReserved("root"))).toEqual(["reserved"]);
+  });
+
+  test("optional accepts missing values as undefined", () => {
+    const website = Validator.optional(Validator.url());
+    expect(website("")).toEqual(Passing.of(undefined));
+    expect(website(null)).toEqual(Passing.of(undefined));
+    expect(codes(website("nope"))).toEqual(["url"]);
+  });
+
+  test("refine checks the output only when the validator passes", () => {
+    const future = Validator.refine(
+      Validator.date(),
+      (d) => d.getTime() > Date.UTC(2000, 0, 1),
+      "Must be after 2000"
+    );
+    expect(codes(future("1999-12-31"))).toEqual(["refine"]);
+    expect(codes(future("nope"))).toEqual(["date"]);
+    expect(future("2001-01-01")).toBeInstanceOf(Passing);
+  });
+
+  test("pipe feeds outputs forward and stops at the first failure", () => {
+    const age = Validator.pipe(
+      Validator.required<number>(),
+      Validator.integer(),
+      Validator.range(0, 130)
+    );
+    expect(age(42)).toEqual(Passing.of(42));
+    expect(codes(age(undefined))).toEqual(["required"]);
+    expect(codes(age(1.5))).toEqual(["integer"]);
+    expect(codes(age(200))).toEqual(["range"]);
+  });
+});
+
+describe("Async validators", () => {
+  const controller = new AbortController();
+
+  test("asyncRule resolves the test into a Validation", async () => {
+    const available = Validator.asyncRule<string>(
+      "taken",
+      async (name) => name !== "jane",
+      "Username is taken"
+    );
+    expect(await available("joe", controller.signal)).toEqual(
+      Passing.of("joe")
+    );
+    expect(codes(await available("jane", controller.signal))).toEqual(
+      ["taken"]
+    );
+  });
+
+  test("withAsync short-circuits on sync failures", async () => {
+    const check = jest.fn(async () => true);
+    const username = Validator.withAsync(
+      Validator.minLength<string>(3),
+      Validator.asyncRule("taken", check, "Username is taken")
+    );
+    expect(codes(await username("ab", controller.signal))).toEqual([
+      "minLength"
+    ]);
+    expect(check).not.toHaveBeenCalled();
+    expect(await username("abc", controller.signal)).toEqual(
+      Passing.of("abc")
+    );
+    expect(check).toHaveBeenCalledWith("abc", controller.signal);
+  });
+
+  test("withAsync accumulates the errors of the async rules", async () => {
+    const validator = Validator.withAsync(
+      Validator.required<string>(),
+      Validator.asyncRule<string>("a", async () => false, "A"),
+      Validator.asyncRule<string>("b", async () => true, "B"),
+      Validator.asyncRule<string>("c", async () => false, "C")
+    );
+    expect(codes(await validator("x", controller.signal))).toEqual([
+      "a",
+      "c"
+    ]);
+  });
+});
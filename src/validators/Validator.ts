@@ -0,0 +1,499 @@
+import {
+  Validation,
+  Passing,
+  Failing,
+  ValidationError,
+  isFailing,
+  isPassing
+} from "../unions/Validation";
+import { isCalendarDate, isEmail, isURL } from "./formats";
+
+/**
+ * A function validating an input into a Validation of its output.
+ * Rules usually pass their input through unchanged, while parsers such as `date` convert it.
+ * @typeParam I - The type of the input.
+ * @typeParam O - The type of the validated output.
+ *
+ * @example
+ * const username: Validator<string> = Validator.and(
+ *   Validator.minLength(3),
+ *   Validator.pattern(/^[a-z0-9_]+$/, 'Only lowercase letters, digits and underscores')
+ * );
+ * username('Jo'); // Failing with both errors
+ */
+export type Validator<I, O = I> = (input: I) => Validation<O>;
+
+/**
+ * A function validating an input asynchronously, such as with a server round-trip.
+ * The signal aborts when the check becomes stale (see `AsyncValidationRunner`).
+ * @typeParam I - The type of the input.
+ * @typeParam O - The type of the validated output.
+ *
+ * @example
+ * const available: AsyncValidator<string> = async (username, signal) => {
+ *   const { taken } = await fetch(`/users/available?name=${username}`, { signal }).then(r => r.json());
+ *   return taken ? Validator.fail('taken', 'Username is taken') : Validation.Passing(username);
+ * };
+ */
+export type AsyncValidator<I, O = I> = (
+  input: I,
+  signal: AbortSignal
+) => Promise<Validation<O>>;
+
+/**
+ * Creates a `Failing` with a single error at the root path.
+ * @param code - Identifier of the broken rule.
+ * @param message - Human-readable description of the error.
+ * @param params - Values describing the rule, such as `{ min: 8 }`.
+ *
+ * @example
+ * const noAdmin: Validator<string> = (name) =>
+ *   name === 'admin' ? fail('reserved', 'This name is reserved') : Validation.Passing(name);
+ */
+export const fail = (
+  code: string,
+  message: string,
+  params?: Record<string, unknown>
+): Failing => {
+  const error: ValidationError = { path: [], code, message };
+  return Failing.of([params ? { ...error, params } : error]);
+};
+
+/**
+ * Creates a rule that passes its input through when `test` holds, or fails with one error.
+ * @param code - Identifier of the rule, used as the error code.
+ * @param test - Predicate the input must satisfy.
+ * @param message - Message of the error.
+ * @param params - Values describing the rule, stored in the error.
+ *
+ * @example
+ * const even = rule<number>('even', (n) => n % 2 === 0, 'Must be even');
+ */
+export const rule =
+  <I>(
+    code: string,
+    test: (input: I) => boolean,
+    message: string,
+    params?: Record<string, unknown>
+  ): Validator<I> =>
+  (input) =>
+    test(input) ? Passing.of(input) : fail(code, message, params);
+
+// null, undefined and empty strings are treated as missing values
+const isAbsent = (input: unknown): input is null | undefined | "" =>
+  input === null || input === undefined || input === "";
+
+/**
+ * Requires a value: fails on `null`, `undefined` and empty strings, and narrows the type otherwise.
+ * @param message - Overrides the default error message.
+ *
+ * @example
+ * Validator.required<string>()(''); // Failing: 'Required'
+ */
+export const required =
+  <T>(message = "Required"): Validator<T | null | undefined, T> =>
+  (input) =>
+    isAbsent(input)
+      ? fail("required", message)
+      : Passing.of(input as T);
+
+const units = (input: unknown) =>
+  typeof input === "string" ? "characters" : "items";
+
+/**
+ * Requires a string or array with at least `min` characters or items.
+ * @param min - The minimum length.
+ * @param message - Overrides the default error message.
+ */
+export const minLength =
+  <T extends { length: number }>(
+    min: number,
+    message?: string
+  ): Validator<T> =>
+  (input) =>
+    rule<T>(
+      "minLength",
+      ({ length }) => length >= min,
+      message ?? `Must have at least ${min} ${units(input)}`,
+      { min }
+    )(input);
+
+/**
+ * Requires a string or array with at most `max` characters or items.
+ * @param max - The maximum length.
+ * @param message - Overrides the default error message.
+ */
+export const maxLength =
+  <T extends { length: number }>(
+    max: number,
+    message?: string
+  ): Validator<T> =>
+  (input) =>
+    rule<T>(
+      "maxLength",
+      ({ length }) => length <= max,
+      message ?? `Must have at most ${max} ${units(input)}`,
+      { max }
+    )(input);
+
+/**
+ * Requires a string matching a regular expression.
+ * @param regex - The expression to match; avoid the `g` and `y` flags, which make `test` stateful.
+ * @param message - Overrides the default error message.
+ */
+export const pattern = (
+  regex: RegExp,
+  message = "Has an invalid format"
+): Validator<string> =>
+  rule("pattern", (input) => regex.test(input), message, {
+    pattern: regex.source
+  });
+
+/**
+ * Requires a number greater than or equal to `min`.
+ * @param min - The minimum value.
+ * @param message - Overrides the default error message.
+ */
+export const min = (
+  min: number,
+  message = `Must be at least ${min}`
+): Validator<number> =>
+  rule("min", (input) => input >= min, message, { min });
+
+/**
+ * Requires a number less than or equal to `max`.
+ * @param max - The maximum value.
+ * @param message - Overrides the default error message.
+ */
+export const max = (
+  max: number,
+  message = `Must be at most ${max}`
+): Validator<number> =>
+  rule("max", (input) => input <= max, message, { max });
+
+/**
+ * Requires a number between `min` and `max`, inclusive.
+ * @param min - The minimum value.
+ * @param max - The maximum value.
+ * @param message - Overrides the default error message.
+ */
+export const range = (
+  min: number,
+  max: number,
+  message = `Must be between ${min} and ${max}`
+): Validator<number> =>
+  rule("range", (input) => input >= min && input <= max, message, {
+    min,
+    max
+  });
+
+/**
+ * Requires an integer number.
+ * @param message - Overrides the default error message.
+ */
+export const integer = (
+  message = "Must be a whole number"
+): Validator<number> =>
+  rule("integer", (input) => Number.isInteger(input), message);
+
+/**
+ * Requires one of the given values, compared with `Object.is`, and narrows the type to them.
+ * @param values - The allowed values.
+ * @param message - Overrides the default error message.
+ *
+ * @example
+ * const theme = Validator.oneOf(['light', 'dark'] as const); // Validator<unknown, 'light' | 'dark'>
+ */
+export const oneOf =
+  <T>(
+    values: readonly T[],
+    message = `Must be one of ${values.join(", ")}`
+  ): Validator<unknown, T> =>
+  (input) =>
+    values.some((value) => Object.is(value, input))
+      ? Passing.of(input as T)
+      : fail("oneOf", message, { values });
+
+/**
+ * Requires a string shaped like an email address.
+ * @param message - Overrides the default error message.
+ */
+export const email = (
+  message = "Must be a valid email address"
+): Validator<string> => rule("email", isEmail, message);
+
+/**
+ * Requires an absolute URL with one of the given protocols.
+ * @param message - Overrides the default error message.
+ * @param protocols - The allowed protocols; defaults to `http:` and `https:`.
+ */
+export const url = (
+  message = "Must be a valid URL",
+  protocols: string[] = ["http:", "https:"]
+): Validator<string> =>
+  rule("url", (input) => isURL(input, protocols), message, {
+    protocols
+  });
+
+/**
+ * Parses a `Date`, timestamp or date string into a valid `Date`.
+ * @param message - Overrides the default error message.
+ *
+ * @example
+ * Validator.date()('2024-02-30'); // Failing: 'Must be a valid date'
+ */
+export const date =
+  (
+    message = "Must be a valid date"
+  ): Validator<Date | string | number, Date> =>
+  (input) => {
+    const parsed = new Date(input);
+    return Number.isNaN(parsed.getTime()) ||
+      (typeof input === "string" && !isCalendarDate(input))
+      ? fail("date", message)
+      : Passing.of(parsed);
+  };
+
+/**
+ * Runs every validator on the same input and accumulates their errors with `concat`.
+ * Passes with the output of the last validator when all of them pass.
+ * @param validators - The validators to run.
+ *
+ * @example
+ * const password = Validator.and(Validator.minLength(8), Validator.pattern(/\d/, 'Must contain a digit'));
+ * password('abc'); // Failing with both errors
+ */
+export const and =
+  <I, O = I>(
+    ...validators: [Validator<I, O>, ...Validator<I, O>[]]
+  ): Validator<I, O> =>
+  (input) =>
+    validators
+      .map((validator) => validator(input))
+      .reduce((result, next) => result.concat(next));
+
+/**
+ * Passes with the first passing validator, or fails with the errors of all of them.
+ * @param validators - The alternatives, tried in order.
+ *
+ * @example
+ * const contact = Validator.or(Validator.email(), Validator.pattern(/^\+?\d{7,}$/, 'Must be a phone number'));
+ */
+export const or =
+  <I, O = I>(
+    ...validators: [Validator<I, O>, ...Validator<I, O>[]]
+  ): Validator<I, O> =>
+  (input) => {
+    const results: Validation<O>[] = [];
+    for (const validator of validators) {
+      const result = validator(input);
+      if (isPassing(result)) {
+        return result;
+      }
+      results.push(result);
+    }
+    return results.reduce((result, next) => result.concat(next));
+  };
+
+/**
+ * Inverts a validator: passes the input through when it fails, and fails when it passes.
+ * @param validator - The validator to invert.
+ * @param message - Message of the error when `validator` passes.
+ * @param code - Code of the error; defaults to `not`.
+ *
+ * @example
+ * const notAdmin = Validator.not(Validator.oneOf(['admin', 'root']), 'This name is reserved');
+ */
+export const not =
+  <I>(
+    validator: Validator<I, unknown>,
+    message: string,
+    code = "not"
+  ): Validator<I> =>
+  (input) =>
+    isFailing(validator(input))
+      ? Passing.of(input)
+      : fail(code, message);
+
+/**
+ * Makes a validator accept missing values (`null`, `undefined` and empty strings),
+ * which pass as `undefined`.
+ * @param validator - The validator for present values.
+ *
+ * @example
+ * const website = Validator.optional(Validator.url());
+ * website(''); // Passing<undefined>
+ */
+export const optional =
+  <I, O>(
+    validator: Validator<I, O>
+  ): Validator<I | null | undefined, O | undefined> =>
+  (input) =>
+    isAbsent(input) ? Passing.of(undefined) : validator(input as I);
+
+/**
+ * Adds a check on the output of a validator, run with `chain` only when it passes.
+ * @param validator - The validator to refine.
+ * @param test - Predicate the output must satisfy.
+ * @param message - Message of the error when `test` fails.
+ * @param code - Code of the error; defaults to `refine`.
+ *
+ * @example
+ * const adult = Validator.refine(Validator.date(), (d) => age(d) >= 18, 'Must be an adult');
+ */
+export const refine =
+  <I, O>(
+    validator: Validator<I, O>,
+    test: (output: O) => boolean,
+    message: string,
+    code = "refine"
+  ): Validator<I, O> =>
+  (input) =>
+    validator(input).chain(({ value }) =>
+      test(value) ? Passing.of(value) : fail(code, message)
+    );
+
+/**
+ * Turns the errors of a validator into non-blocking warnings: the input always passes,
+ * carrying the errors as `warnings`.
+ * @param validator - The validator whose errors become warnings.
+ *
+ * @example
+ * const password = Validator.and(
+ *   Validator.minLength<string>(8),
+ *   Validator.warn(Validator.pattern(/[^a-z0-9]/i, 'Password is weak'))
+ * );
+ * password('abcdefgh'); // Passing with the warning 'Password is weak'
+ */
+export const warn =
+  <I>(validator: Validator<I, unknown>): Validator<I> =>
+  (input) => {
+    const result = validator(input);
+    return isFailing(result)
+      ? Passing.of(input, result.errors)
+      : Passing.of(input, result.warnings);
+  };
+
+/**
+ * Composes validators with `chain`, feeding the output of each one into the next
+ * and stopping at the first failure.
+ * @param validators - The validators to compose, in order.
+ *
+ * @example
+ * const age = Validator.pipe(Validator.required<number>(), Validator.integer(), Validator.range(0, 130));
+ */
+export function pipe<A, B, C>(
+  first: Validator<A, B>,
+  second: Validator<B, C>
+): Validator<A, C>;
+export function pipe<A, B, C, D>(
+  first: Validator<A, B>,
+  second: Validator<B, C>,
+  third: Validator<C, D>
+): Validator<A, D>;
+export function pipe<A, B, C, D, E>(
+  first: Validator<A, B>,
+  second: Validator<B, C>,
+  third: Validator<C, D>,
+  fourth: Validator<D, E>
+): Validator<A, E>;
+export function pipe(
+  ...validators: Validator<unknown, unknown>[]
+): Validator<unknown, unknown> {
+  return (input) =>
+    validators.reduce<Validation<unknown>>(
+      (result, validator) =>
+        result.chain(({ value }) => validator(value)),
+      Passing.of(input)
+    );
+}
+
+/**
+ * Creates an async rule that passes its input through when `test` resolves to true,
+ * or fails with one error.
+ * @param code - Identifier of the rule, used as the error code.
+ * @param test - Async predicate the input must satisfy.
+ * @param message - Message of the error.
+ * @param params - Values describing the rule, stored in the error.
+ *
+ * @example
+ * const available = Validator.asyncRule<string>(
+ *   'taken',
+ *   (name, signal) => api.isAvailable(name, { signal }),
+ *   'Username is taken'
+ * );
+ */
+export const asyncRule =
+  <I>(
+    code: string,
+    test: (input: I, signal: AbortSignal) => Promise<boolean>,
+    message: string,
+    params?: Record<string, unknown>
+  ): AsyncValidator<I> =>
+  async (input, signal) =>
+    (await test(input, signal))
+      ? Passing.of(input)
+      : fail(code, message, params);
+
+/**
+ * Mixes sync and async rules: the sync validator runs first and short-circuits on failure,
+ * so async rules only see valid input. The async rules then run in parallel on the sync
+ * output and their errors accumulate like `and`.
+ * @param validator - The sync rules.
+ * @param asyncValidators - The async rules.
+ *
+ * @example
+ * const username = Validator.withAsync(
+ *   Validator.and(Validator.minLength(3), Validator.pattern(/^[a-z]+$/)),
+ *   available
+ * );
+ * await username('ab', signal); // Failing from minLength, without a server round-trip
+ */
+export const withAsync =
+  <I, O>(
+    validator: Validator<I, O>,
+    ...asyncValidators: AsyncValidator<O>[]
+  ): AsyncValidator<I, O> =>
+  async (input, signal) => {
+    const result = validator(input);
+    if (isFailing(result) || asyncValidators.length === 0) {
+      return result;
+    }
+    const results = await Promise.all(
+      asyncValidators.map((asyncValidator) =>
+        asyncValidator(result.value, signal)
+      )
+    );
+    return results.reduce((result, next) => result.concat(next));
+  };
+
+/**
+ * Validator rules and combinators.
+ */
+export const Validator = {
+  fail,
+  rule,
+  required,
+  minLength,
+  maxLength,
+  pattern,
+  min,
+  max,
+  range,
+  integer,
+  oneOf,
+  email,
+  url,
+  date,
+  and,
+  or,
+  not,
+  optional,
+  refine,
+  warn,
+  pipe,
+  asyncRule,
+  withAsync
+};
+
+export default Validator;
@@ -0,0 +1,57 @@
+// Pragmatic check: one "@", no whitespace, and a dot in the domain
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const UUID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks whether a string is shaped like an email address.
+ * @param input - The string to check.
+ */
+export const isEmail = (input: string): boolean => EMAIL.test(input);
+
+/**
+ * Checks whether a string is an absolute URL with one of the given protocols.
+ * @param input - The string to check.
+ * @param protocols - The allowed protocols, such as `https:`; any protocol when omitted.
+ */
+export const isURL = (
+  input: string,
+  protocols?: string[]
+): boolean => {
+  try {
+    const { protocol } = new URL(input);
+    return !protocols || protocols.includes(protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks that a string starting with a `YYYY-MM-DD` date names an existing day.
+ * Date strings roll invalid days over (2024-02-30 becomes March 1st), so the fields are compared.
+ * Strings in other formats pass.
+ * @param input - The string to check.
+ */
+export const isCalendarDate = (input: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(input);
+  if (!match) {
+    return true;
+  }
+  const [, year, month, day] = match.map(Number);
+  const utc = new Date(Date.UTC(year, month - 1, day));
+  return utc.getUTCMonth() === month - 1 && utc.getUTCDate() === day;
+};
+
+/**
+ * Checks whether a string is a parseable date naming an existing day.
+ * @param input - The string to check.
+ */
+export const isDateString = (input: string): boolean =>
+  !Number.isNaN(new Date(input).getTime()) && isCalendarDate(input);
+
+/**
+ * Checks whether a string is a UUID.
+ * @param input - The string to check.
+ */
+export const isUUID = (input: string): boolean => UUID.test(input);
@@ -0,0 +1,4 @@
+export * as Validator from "./Validator";
+export * from "./AsyncValidationRunner";
+export * from "./MessageCatalog";
+export * from "./JSONSchema";